@@ -0,0 +1,116 @@
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import type { Plugin } from "vite";
+
+const VIRTUAL_ID = "virtual:mediapipe-assets";
+const RESOLVED_VIRTUAL_ID = `\0${VIRTUAL_ID}`;
+
+// Files MediaPipe loads at runtime; the rest of each package is typings and docs
+const RUNTIME_FILE = /\.(js|wasm|data|tflite|binarypb)$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".js": "text/javascript",
+  ".wasm": "application/wasm",
+};
+
+interface BundledSolution {
+  packageName: string;
+  dir: string;
+  version: string;
+  // Public path the files are served from, including the app's base
+  baseUrl: string;
+  // File name → SRI digest
+  integrity: Record<string, string>;
+}
+
+function readJson(file: string) {
+  return JSON.parse(readFileSync(file, "utf8"));
+}
+
+function sha384(file: string): string {
+  return `sha384-${createHash("sha384").update(readFileSync(file)).digest("base64")}`;
+}
+
+// Copies MediaPipe solution packages (e.g. "@mediapipe/hands") into the build
+// output under mediapipe/<solution>/<version>/, serves the same files from
+// node_modules in development, and exposes their URLs and SHA-384 digests as
+// `virtual:mediapipe-assets` so the app never has to reach a CDN.
+export function mediapipeAssets(packageNames: string[]): Plugin {
+  let solutions: Record<string, BundledSolution> = {};
+
+  return {
+    name: "mediapipe-assets",
+
+    configResolved(config) {
+      const { dependencies = {} } = readJson(path.resolve(config.root, "package.json"));
+      solutions = {};
+      for (const packageName of packageNames) {
+        const dir = path.resolve(config.root, "node_modules", packageName);
+        const { version } = readJson(path.join(dir, "package.json"));
+        // The files are served under their version, so the installed build
+        // must be exactly the one package.json asks for
+        if (dependencies[packageName] !== version) {
+          throw new Error(
+            `${packageName} must be pinned to the installed version ${version} in package.json (found "${dependencies[packageName]}")`,
+          );
+        }
+        const solution = packageName.replace(/^@mediapipe\//, "");
+        const integrity: Record<string, string> = {};
+        for (const file of readdirSync(dir).filter((name) => RUNTIME_FILE.test(name)).sort()) {
+          integrity[file] = sha384(path.join(dir, file));
+        }
+        solutions[solution] = {
+          packageName,
+          dir,
+          version,
+          baseUrl: `${config.base}mediapipe/${solution}/${version}/`,
+          integrity,
+        };
+      }
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_VIRTUAL_ID : null;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_VIRTUAL_ID) return null;
+      const exported = Object.fromEntries(
+        Object.entries(solutions).map(([solution, { version, baseUrl, integrity }]) => [
+          solution,
+          { version, baseUrl, integrity },
+        ]),
+      );
+      return `export const solutions = ${JSON.stringify(exported)};`;
+    },
+
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const url = req.url?.split("?")[0] ?? "";
+        const solution = Object.values(solutions).find(({ baseUrl }) => url.startsWith(baseUrl));
+        const file = solution && decodeURIComponent(url.slice(solution.baseUrl.length));
+        if (!solution || !file || !(file in solution.integrity)) {
+          next();
+          return;
+        }
+        res.setHeader("Content-Type", CONTENT_TYPES[path.extname(file)] ?? "application/octet-stream");
+        // Versioned paths never change
+        res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+        res.end(readFileSync(path.join(solution.dir, file)));
+      });
+    },
+
+    generateBundle() {
+      for (const [solution, { dir, version, integrity }] of Object.entries(solutions)) {
+        for (const file of Object.keys(integrity)) {
+          this.emitFile({
+            type: "asset",
+            fileName: `mediapipe/${solution}/${version}/${file}`,
+            source: readFileSync(path.join(dir, file)),
+          });
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,119 @@
+// Headless classifier evaluation against labeled landmark datasets.
+//
+//   npm run evaluate -- <dataset.json|dataset.csv>... [options]
+//
+//   --classifier <spec>     rules, a gesture model JSON file, or a module whose
+//                           default export is a GestureClassifier; repeat to
+//                           compare several (default: rules)
+//   --pack <id>             sign-language pack for the rules (default: asl)
+//   --rejection <share>     rejection threshold (default: the classifier's)
+//   --dominant-hand <hand>  Left or Right
+//   --json <file>           also write the reports as JSON, for the report page
+//   --min-accuracy <share>  exit with status 1 when any report scores lower
+//
+// Runs on Node 22.6 or later, which loads the TypeScript sources directly.
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import {
+  createLearnedClassifier,
+  createRuleClassifier,
+  evaluateClassifier,
+  formatReport,
+  getSignLanguagePack,
+  parseDataset,
+  parseGestureModel,
+  type EvaluationReport,
+  type GestureClassifier,
+  type Handedness,
+} from '../supabase/functions/_shared/gesture/index.ts';
+
+const USAGE = 'Usage: npm run evaluate -- <dataset.json|dataset.csv>... [--classifier rules|model.json|module.ts] ' +
+  '[--pack asl] [--rejection 0.4] [--dominant-hand Right] [--json report.json] [--min-accuracy 0.9]';
+
+const isClassifier = (value: unknown): value is GestureClassifier =>
+  typeof (value as GestureClassifier | null)?.classify === 'function';
+
+async function loadClassifier(spec: string, packId: string): Promise<GestureClassifier> {
+  if (spec === 'rules') {
+    const pack = getSignLanguagePack(packId);
+    return { ...createRuleClassifier(pack), name: `Rule-based (${pack.shortName})` };
+  }
+  if (/\.json$/i.test(spec)) {
+    const model = parseGestureModel(JSON.parse(await readFile(spec, 'utf8')));
+    return createLearnedClassifier(model, getSignLanguagePack(packId));
+  }
+  const module = await import(pathToFileURL(resolve(spec)).href);
+  const classifier = module.default ?? module.classifier;
+  if (!isClassifier(classifier)) {
+    throw new Error(`${spec} must export a GestureClassifier as its default export`);
+  }
+  return classifier;
+}
+
+function parseShare(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) return undefined;
+  const share = Number(value);
+  if (!Number.isFinite(share) || share < 0 || share > 1) throw new Error(`--${option} must be between 0 and 1`);
+  return share;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      classifier: { type: 'string', multiple: true },
+      pack: { type: 'string', default: 'asl' },
+      rejection: { type: 'string' },
+      'dominant-hand': { type: 'string' },
+      json: { type: 'string' },
+      'min-accuracy': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 2;
+    return;
+  }
+
+  const dominantHand = values['dominant-hand'];
+  if (dominantHand !== undefined && dominantHand !== 'Left' && dominantHand !== 'Right') {
+    throw new Error('--dominant-hand must be Left or Right');
+  }
+  const rejectionThreshold = parseShare(values.rejection, 'rejection');
+  const minAccuracy = parseShare(values['min-accuracy'], 'min-accuracy');
+
+  const datasets = await Promise.all(positionals.map(async (file) => parseDataset(await readFile(file, 'utf8'), file)));
+  const classifiers = await Promise.all((values.classifier ?? ['rules']).map((spec) => loadClassifier(spec, values.pack)));
+
+  const reports: EvaluationReport[] = [];
+  for (const classifier of classifiers) {
+    for (const dataset of datasets) {
+      const report = evaluateClassifier(classifier, dataset, {
+        rejectionThreshold,
+        dominantHand: dominantHand as Handedness | undefined,
+      });
+      reports.push(report);
+      console.log(`${formatReport(report)}\n`);
+    }
+  }
+
+  if (values.json) {
+    await writeFile(values.json, JSON.stringify(reports, null, 2));
+    console.log(`Wrote ${reports.length} report(s) to ${values.json}`);
+  }
+
+  const failing = minAccuracy === undefined ? [] : reports.filter((report) => report.accuracy < minAccuracy);
+  for (const report of failing) {
+    console.error(`${report.classifier.name} on ${report.dataset} is below the minimum accuracy`);
+  }
+  if (failing.length > 0) process.exitCode = 1;
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
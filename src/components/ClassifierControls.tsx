@@ -0,0 +1,103 @@
+import { FileUp, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { toast } from "@/hooks/use-toast";
+import type { ClassifierKind } from "@/hooks/use-gesture-model";
+
+interface ClassifierControlsProps {
+  classifier: ClassifierKind;
+  onClassifierChange: (classifier: ClassifierKind) => void;
+  // Sign language the model is loaded for, e.g. "ASL"
+  packName: string;
+  hasModel: boolean;
+  hasUserModel: boolean;
+  isModelLoading: boolean;
+  modelError: string | null;
+  onLoadModel: (file: File) => Promise<void>;
+  onRemoveModel: () => void;
+}
+
+// Choose between the hand-written rules and a learned model, which is either
+// shipped with the pack or a model file the user loads
+export function ClassifierControls({
+  classifier,
+  onClassifierChange,
+  packName,
+  hasModel,
+  hasUserModel,
+  isModelLoading,
+  modelError,
+  onLoadModel,
+  onRemoveModel,
+}: ClassifierControlsProps) {
+  const loadModel = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      await onLoadModel(file);
+      onClassifierChange("learned");
+      toast({ title: "Gesture model loaded", description: `Used for ${packName} from now on.` });
+    } catch (err) {
+      console.error("Failed to load gesture model:", err);
+      toast({
+        title: "Model not loaded",
+        description: err instanceof Error ? err.message : "The file could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const learned = classifier === "learned" && hasModel;
+
+  return (
+    <div className="mt-3 flex flex-col items-center gap-1">
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <span id="classifier-label" className="text-sm font-medium text-muted-foreground">
+          Classifier:
+        </span>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={learned ? "learned" : "rules"}
+          onValueChange={(value) => value && onClassifierChange(value as ClassifierKind)}
+          aria-labelledby="classifier-label"
+        >
+          <ToggleGroupItem value="learned" aria-label="Use the learned model" disabled={!hasModel}>
+            Learned
+          </ToggleGroupItem>
+          <ToggleGroupItem value="rules" aria-label="Use the rule-based classifier">Rules</ToggleGroupItem>
+        </ToggleGroup>
+        <Button variant="ghost" size="sm" asChild>
+          <label className="cursor-pointer">
+            <FileUp className="h-4 w-4" />
+            Load model
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="sr-only"
+              onChange={(e) => {
+                loadModel(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </Button>
+        {hasUserModel && (
+          <Button variant="ghost" size="sm" onClick={onRemoveModel} aria-label={`Remove the loaded ${packName} model`}>
+            <Trash2 className="h-4 w-4" />
+            Remove model
+          </Button>
+        )}
+      </div>
+      {!hasModel ? (
+        <p className="text-xs text-muted-foreground">
+          No learned model for {packName} yet. Load a gesture model file to use one.
+        </p>
+      ) : learned && (isModelLoading || modelError) && (
+        <p className="text-xs text-muted-foreground" role="status">
+          {isModelLoading ? "Loading learned model..." : `${modelError} — using rules instead.`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Check, Circle, Download, Pencil, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useCustomSigns } from "@/hooks/use-custom-signs";
+import { exportCustomSigns, type CustomSign } from "@/lib/custom-signs";
+
+interface CustomSignsPanelProps {
+  // Recording needs the camera to be running
+  canRecord: boolean;
+  // 0-100 while a sign is being recorded, null otherwise
+  recordingProgress: number | null;
+  onRecord: (label: string) => void;
+}
+
+export function CustomSignsPanel({ canRecord, recordingProgress, onRecord }: CustomSignsPanelProps) {
+  const { signs, loadError, renameSign, removeSign } = useCustomSigns();
+  const [label, setLabel] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editLabel, setEditLabel] = useState("");
+  const isRecording = recordingProgress !== null;
+
+  const startRecording = () => {
+    const trimmed = label.trim();
+    if (!trimmed) return;
+    onRecord(trimmed);
+    setLabel("");
+  };
+
+  const startEditing = (sign: CustomSign) => {
+    setEditingId(sign.id);
+    setEditLabel(sign.label);
+  };
+
+  const saveEdit = async (sign: CustomSign) => {
+    const trimmed = editLabel.trim();
+    if (trimmed && trimmed !== sign.label) {
+      await renameSign({ sign, label: trimmed });
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <section className="mt-4 p-4 rounded-xl border border-border" aria-labelledby="custom-signs-heading">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h3 id="custom-signs-heading" className="text-sm font-semibold text-foreground">
+          Teach a sign
+        </h3>
+        {signs.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => exportCustomSigns(signs)} aria-label="Export custom signs as JSON">
+            <Download className="h-4 w-4" />
+            Export
+          </Button>
+        )}
+      </div>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          startRecording();
+        }}
+      >
+        <Input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Label, e.g. a name or workplace term"
+          aria-label="Label for the new sign"
+          disabled={isRecording}
+        />
+        <Button type="submit" disabled={!canRecord || isRecording || !label.trim()}>
+          <Circle className="h-4 w-4 fill-current" />
+          Record
+        </Button>
+      </form>
+
+      {isRecording ? (
+        <div className="mt-3" role="status">
+          <p className="text-xs text-muted-foreground mb-1">Hold the sign in front of the camera...</p>
+          <Progress value={recordingProgress} className="h-2" aria-label="Recording progress" />
+        </div>
+      ) : (
+        !canRecord && (
+          <p className="mt-2 text-xs text-muted-foreground">Start detection to record a new sign.</p>
+        )
+      )}
+
+      {loadError && (
+        <p className="mt-2 text-xs text-destructive" role="alert">
+          {loadError}
+        </p>
+      )}
+
+      {signs.length > 0 && (
+        <ul className="mt-3 divide-y divide-border" aria-label="Custom signs">
+          {signs.map((sign) => (
+            <li key={sign.id} className="flex items-center gap-2 py-2">
+              {editingId === sign.id ? (
+                <>
+                  <Input
+                    value={editLabel}
+                    onChange={(e) => setEditLabel(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") saveEdit(sign);
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    aria-label={`New label for ${sign.label}`}
+                    className="h-8"
+                    autoFocus
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => saveEdit(sign)} aria-label="Save label">
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setEditingId(null)} aria-label="Cancel editing">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 text-sm font-medium text-foreground">{sign.label}</span>
+                  <span className="text-xs text-muted-foreground">{sign.samples.length} samples</span>
+                  <Button variant="ghost" size="icon" onClick={() => startEditing(sign)} aria-label={`Rename ${sign.label}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => removeSign(sign.id)} aria-label={`Delete ${sign.label}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
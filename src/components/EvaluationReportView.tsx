@@ -0,0 +1,108 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { glossFor, UNKNOWN_GESTURE, type EvaluationReport, type SignLanguagePack } from "@shared/gesture";
+import { cn } from "@/lib/utils";
+
+const share = (value: number | null) => (value === null ? "–" : `${(value * 100).toFixed(1)}%`);
+
+interface EvaluationReportViewProps {
+  report: EvaluationReport;
+  // Pack whose glosses label the signs
+  pack: SignLanguagePack;
+}
+
+// Summary, per-sign metrics and confusion matrix of one evaluation run
+export function EvaluationReportView({ report, pack }: EvaluationReportViewProps) {
+  const label = (gesture: string) => (gesture === UNKNOWN_GESTURE ? "Unknown" : glossFor(pack, gesture));
+  const summary = [
+    { name: "Samples", value: String(report.samples) },
+    { name: "Accuracy", value: share(report.accuracy) },
+    { name: "Rejected", value: String(report.rejected) },
+    { name: "Latency p50", value: `${report.latency.p50Ms.toFixed(2)} ms` },
+    { name: "Latency p95", value: `${report.latency.p95Ms.toFixed(2)} ms` },
+  ];
+  // Cells are shaded by their share of the row, so rare signs stay readable
+  const rowTotals = report.confusion.map((row) => row.reduce((sum, n) => sum + n, 0));
+
+  return (
+    <article className="feature-card" aria-label={`${report.classifier.name} on ${report.dataset}`}>
+      <h3 className="text-lg font-semibold text-foreground">
+        {report.classifier.name} <span className="text-muted-foreground font-normal">on {report.dataset}</span>
+      </h3>
+
+      <dl className="mt-4 grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {summary.map(({ name, value }) => (
+          <div key={name} className="p-3 rounded-lg bg-muted/50">
+            <dt className="text-xs text-muted-foreground">{name}</dt>
+            <dd className="text-lg font-semibold text-foreground tabular-nums">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <h4 className="mt-6 mb-2 text-sm font-semibold text-foreground">Per sign</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Sign</TableHead>
+            <TableHead className="text-right">Support</TableHead>
+            <TableHead className="text-right">Precision</TableHead>
+            <TableHead className="text-right">Recall</TableHead>
+            <TableHead className="text-right">F1</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.metrics.map((m) => (
+            <TableRow key={m.label}>
+              <TableCell className="font-medium">{label(m.label)}</TableCell>
+              <TableCell className="text-right tabular-nums">{m.support}</TableCell>
+              <TableCell className="text-right tabular-nums">{share(m.precision)}</TableCell>
+              <TableCell className="text-right tabular-nums">{share(m.recall)}</TableCell>
+              <TableCell className="text-right tabular-nums">{share(m.f1)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <h4 className="mt-6 mb-2 text-sm font-semibold text-foreground">Confusion matrix</h4>
+      <div className="overflow-x-auto">
+        <table className="text-xs tabular-nums border-collapse">
+          <caption className="caption-bottom mt-2 text-left text-muted-foreground">
+            Rows are the labeled sign, columns what the classifier predicted.
+          </caption>
+          <thead>
+            <tr>
+              <th scope="col" className="p-1" />
+              {report.labels.map((gesture) => (
+                <th key={gesture} scope="col" className="p-1 font-medium text-muted-foreground">
+                  {label(gesture)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {report.confusion.map((row, i) => (
+              <tr key={report.labels[i]}>
+                <th scope="row" className="p-1 pr-2 text-right font-medium text-muted-foreground">
+                  {label(report.labels[i])}
+                </th>
+                {row.map((count, j) => (
+                  <td
+                    key={report.labels[j]}
+                    className={cn(
+                      "min-w-8 p-1 text-center border border-border",
+                      count > 0 && (i === j ? "text-success-foreground" : "text-destructive-foreground"),
+                    )}
+                    style={count > 0 ? {
+                      backgroundColor: `hsl(var(${i === j ? "--success" : "--destructive"}) / ${0.25 + 0.75 * (count / rowTotals[i])})`,
+                    } : undefined}
+                  >
+                    {count || ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </article>
+  );
+}
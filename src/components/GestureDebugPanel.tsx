@@ -0,0 +1,74 @@
+import { useMemo } from "react";
+import { analyzeDefinitions, type DefinitionMatch, type GestureDefinition } from "@shared/gesture";
+import { cn } from "@/lib/utils";
+
+interface GestureDebugPanelProps {
+  // Definitions checked against the latest frame, or null without a hand
+  explanation: DefinitionMatch[] | null;
+  // Definitions of the active sign-language pack
+  definitions: GestureDefinition[];
+}
+
+// Shows which gesture definitions matched the latest frame, the closest
+// misses, and conflicts between the definitions themselves
+export function GestureDebugPanel({ explanation, definitions }: GestureDebugPanelProps) {
+  const issues = useMemo(() => analyzeDefinitions(definitions), [definitions]);
+  // Overlaps are expected between related handshapes, so only they are counted
+  const conflicts = issues.filter((issue) => issue.type !== "overlap");
+  const unreachableCount = conflicts.filter((issue) => issue.type !== "conflict").length;
+  const overlapCount = issues.length - conflicts.length;
+
+  const matched = explanation?.filter((match) => match.matched) ?? [];
+  const nearMisses = (explanation ?? [])
+    .filter((match) => match.failures.length === 1)
+    .slice(0, 5);
+
+  return (
+    <section className="mt-4 p-4 rounded-xl border border-dashed border-border text-xs" aria-labelledby="gesture-debug-heading">
+      <h3 id="gesture-debug-heading" className="text-sm font-semibold text-foreground mb-2">
+        Matched definitions
+      </h3>
+
+      {!explanation ? (
+        <p className="text-muted-foreground">Show a hand to see which definitions match.</p>
+      ) : matched.length === 0 ? (
+        <p className="text-muted-foreground">No definition matches this frame.</p>
+      ) : (
+        <ol className="space-y-1">
+          {matched.map(({ definition }, i) => (
+            <li key={definition.gesture} className={cn(i === 0 && "font-semibold text-foreground")}>
+              {definition.gesture}
+              <span className="ml-2 text-muted-foreground">{definition.description}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {nearMisses.length > 0 && (
+        <>
+          <p className="mt-3 font-medium text-muted-foreground">One requirement away:</p>
+          <ul className="space-y-1">
+            {nearMisses.map(({ definition, failures }) => (
+              <li key={definition.gesture}>
+                {definition.gesture}
+                <span className="ml-2 text-muted-foreground">needs {failures[0]}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <p className="mt-3 font-medium text-muted-foreground">
+        Definition conflicts: {unreachableCount} unreachable, {conflicts.length - unreachableCount} mostly losing,{" "}
+        {overlapCount} overlapping
+      </p>
+      {conflicts.length > 0 && (
+        <ul className="space-y-1 text-destructive">
+          {conflicts.map((issue) => (
+            <li key={`${issue.by}-${issue.gesture}`}>{issue.message}</li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { Check, Crosshair, RefreshCw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useHandProfiles } from "@/hooks/use-hand-profiles";
+import { toast } from "@/hooks/use-toast";
+import type { HandProfile } from "@/lib/hand-profiles";
+import {
+  calibrateHand,
+  CALIBRATION_STEPS,
+  MIN_CALIBRATION_FRAMES,
+  type CalibrationCapture,
+  type CalibrationPose,
+  type CalibrationStep,
+} from "@shared/gesture";
+
+const POSE_INSTRUCTIONS: Record<CalibrationPose, string> = {
+  open: "Hold your hand flat with the fingers together, palm to the camera.",
+  fist: "Make a fist with your thumb across your fingers.",
+  pinch: "Touch your thumb and index fingertips together, other fingers up.",
+};
+
+const DISTANCE_INSTRUCTIONS = {
+  near: "Close to the camera",
+  far: "At your usual signing distance",
+};
+
+interface Calibration {
+  // Profile being recalibrated, or the name of a new one
+  profile: HandProfile | null;
+  name: string;
+  captures: CalibrationCapture[];
+}
+
+interface HandProfilesPanelProps {
+  // Calibration needs the camera to be running
+  canCalibrate: boolean;
+  // 0-100 while a calibration pose is being captured, null otherwise
+  captureProgress: number | null;
+  onCapture: (step: CalibrationStep) => Promise<CalibrationCapture>;
+  activeProfileId: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+export function HandProfilesPanel({
+  canCalibrate,
+  captureProgress,
+  onCapture,
+  activeProfileId,
+  onSelect,
+}: HandProfilesPanelProps) {
+  const { profiles, addProfile, recalibrateProfile, removeProfile } = useHandProfiles();
+  const [name, setName] = useState("");
+  const [calibration, setCalibration] = useState<Calibration | null>(null);
+  const isCapturing = captureProgress !== null;
+  const step = calibration ? CALIBRATION_STEPS[calibration.captures.length] : null;
+
+  const startCalibration = (profile: HandProfile | null) => {
+    const trimmed = profile?.name ?? name.trim();
+    if (!trimmed) return;
+    setCalibration({ profile, name: trimmed, captures: [] });
+    setName("");
+  };
+
+  const finish = async ({ profile, name, captures }: Calibration) => {
+    setCalibration(null);
+    try {
+      const result = calibrateHand(captures);
+      if (profile) {
+        await recalibrateProfile({ profile, calibration: result });
+        onSelect(profile.id);
+      } else {
+        onSelect((await addProfile({ name, calibration: result })).id);
+      }
+      toast({ title: `Calibrated "${name}"`, description: "Recognition now uses this hand profile." });
+    } catch (err) {
+      console.error("Calibration failed:", err);
+      toast({
+        title: "Calibration failed",
+        description: err instanceof Error ? err.message : "Could not save the hand profile.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const capture = async () => {
+    if (!calibration || !step) return;
+    const captured = await onCapture(step);
+    if (captured.frames.length < MIN_CALIBRATION_FRAMES) {
+      toast({
+        title: "Pose not captured",
+        description: "Keep your hand in view of the camera and try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const next = { ...calibration, captures: [...calibration.captures, captured] };
+    if (next.captures.length < CALIBRATION_STEPS.length) {
+      setCalibration(next);
+    } else {
+      await finish(next);
+    }
+  };
+
+  const remove = async (profile: HandProfile) => {
+    if (profile.id === activeProfileId) onSelect(null);
+    await removeProfile(profile.id);
+  };
+
+  return (
+    <section className="mt-4 p-4 rounded-xl border border-border" aria-labelledby="hand-profiles-heading">
+      <h3 id="hand-profiles-heading" className="text-sm font-semibold text-foreground mb-1">
+        Hand profile
+      </h3>
+      <p className="text-xs text-muted-foreground mb-3">
+        Calibrate to your hand size and reach so handshapes are read the way you make them.
+      </p>
+
+      {calibration && step ? (
+        <div className="p-3 rounded-lg bg-muted/50" role="status">
+          <div className="flex items-center justify-between gap-3 mb-1">
+            <p className="text-xs font-medium text-muted-foreground">
+              {calibration.name} · step {calibration.captures.length + 1} of {CALIBRATION_STEPS.length}
+            </p>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setCalibration(null)}
+              disabled={isCapturing}
+              aria-label="Cancel calibration"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-sm font-medium text-foreground">{POSE_INSTRUCTIONS[step.pose]}</p>
+          <p className="text-xs text-muted-foreground mb-2">{DISTANCE_INSTRUCTIONS[step.distance]}.</p>
+          {isCapturing ? (
+            <Progress value={captureProgress} className="h-2" aria-label="Capture progress" />
+          ) : (
+            <Button size="sm" onClick={capture} disabled={!canCalibrate}>
+              <Crosshair className="h-4 w-4" />
+              Capture
+            </Button>
+          )}
+        </div>
+      ) : (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            startCalibration(null);
+          }}
+        >
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Profile name, e.g. your name"
+            aria-label="Name for the new hand profile"
+          />
+          <Button type="submit" disabled={!canCalibrate || !name.trim()}>
+            <Crosshair className="h-4 w-4" />
+            Calibrate
+          </Button>
+        </form>
+      )}
+
+      {!canCalibrate && (
+        <p className="mt-2 text-xs text-muted-foreground">Start detection to calibrate a hand profile.</p>
+      )}
+
+      {profiles.length > 0 && (
+        <ul className="mt-3 divide-y divide-border" aria-label="Hand profiles">
+          {profiles.map((profile) => {
+            const isActive = profile.id === activeProfileId;
+            return (
+              <li key={profile.id} className="flex items-center gap-2 py-2">
+                <span className="flex-1 text-sm font-medium text-foreground">{profile.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(profile.updatedAt).toLocaleDateString()}
+                </span>
+                <Button
+                  variant={isActive ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => onSelect(isActive ? null : profile.id)}
+                  aria-pressed={isActive}
+                  aria-label={isActive ? `Stop using ${profile.name}` : `Use ${profile.name}`}
+                >
+                  {isActive && <Check className="h-4 w-4" />}
+                  {isActive ? "In use" : "Use"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => startCalibration(profile)}
+                  disabled={!canCalibrate || calibration !== null}
+                  aria-label={`Recalibrate ${profile.name}`}
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => remove(profile)} aria-label={`Delete ${profile.name}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
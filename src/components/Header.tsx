@@ -1,12 +1,15 @@
 import { Hand } from "lucide-react";
 import { LanguageSelector } from "./LanguageSelector";
+import { SignLanguageSelector } from "./SignLanguageSelector";
 
 interface HeaderProps {
   language: string;
   onLanguageChange: (language: string) => void;
+  signLanguage: string;
+  onSignLanguageChange: (signLanguage: string) => void;
 }
 
-export function Header({ language, onLanguageChange }: HeaderProps) {
+export function Header({ language, onLanguageChange, signLanguage, onSignLanguageChange }: HeaderProps) {
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border/50 bg-background/80 backdrop-blur-lg supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-20 items-center justify-between">
@@ -24,7 +27,10 @@ export function Header({ language, onLanguageChange }: HeaderProps) {
           </div>
         </div>
 
-        <LanguageSelector value={language} onChange={onLanguageChange} />
+        <div className="flex items-center gap-3 sm:gap-4">
+          <SignLanguageSelector value={signLanguage} onChange={onSignLanguageChange} />
+          <LanguageSelector value={language} onChange={onLanguageChange} />
+        </div>
       </div>
     </header>
   );
@@ -0,0 +1,43 @@
+import { cn } from "@/lib/utils";
+
+interface HoldProgressRingProps {
+  // Share of the hold time completed, from 0 to 1
+  progress: number;
+  confirmed: boolean;
+  label: string;
+  className?: string;
+}
+
+const RADIUS = 16;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// Fills while a sign is held and turns solid once it is committed
+export function HoldProgressRing({ progress, confirmed, label, className }: HoldProgressRingProps) {
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <svg
+        viewBox="0 0 40 40"
+        className="h-8 w-8 -rotate-90"
+        role="progressbar"
+        aria-label={`Hold ${label} to confirm`}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(progress * 100)}
+      >
+        <circle cx="20" cy="20" r={RADIUS} fill="none" strokeWidth="4" className="stroke-current opacity-30" />
+        <circle
+          cx="20"
+          cy="20"
+          r={RADIUS}
+          fill="none"
+          strokeWidth="4"
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - progress)}
+          className={cn("stroke-current transition-[stroke-dashoffset] duration-100", confirmed && "text-success")}
+        />
+      </svg>
+      <span className="text-xs">{confirmed ? `${label} ✓` : `Hold ${label}…`}</span>
+    </div>
+  );
+}
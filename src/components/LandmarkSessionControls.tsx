@@ -0,0 +1,77 @@
+import { Circle, FileUp, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { parseLandmarkSession, type LandmarkSession } from "@/lib/landmark-session";
+
+interface LandmarkSessionControlsProps {
+  // Recording needs a live camera session; replaying needs the camera off
+  isActive: boolean;
+  isReplaying: boolean;
+  isRecording: boolean;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onReplay: (session: LandmarkSession) => void;
+}
+
+// Save what the tracker sees to a file, or play such a file back without a
+// camera, e.g. to reproduce a reported bug or demo on a machine without one
+export function LandmarkSessionControls({
+  isActive,
+  isReplaying,
+  isRecording,
+  onStartRecording,
+  onStopRecording,
+  onReplay,
+}: LandmarkSessionControlsProps) {
+  const loadSession = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onReplay(parseLandmarkSession(JSON.parse(await file.text())));
+    } catch (err) {
+      console.error("Failed to load landmark session:", err);
+      toast({
+        title: "Session not loaded",
+        description: err instanceof Error ? err.message : "The file could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center justify-center gap-3">
+      {isRecording ? (
+        <Button variant="outline" size="sm" onClick={onStopRecording} aria-label="Stop recording and save the session">
+          <Square className="h-4 w-4 fill-current text-destructive" />
+          Stop recording
+        </Button>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onStartRecording}
+          disabled={!isActive || isReplaying}
+          aria-label="Record the tracked landmarks to a file"
+        >
+          <Circle className="h-4 w-4 fill-current text-destructive" />
+          Record session
+        </Button>
+      )}
+      <Button variant="outline" size="sm" asChild>
+        <label className={isActive ? "pointer-events-none opacity-50" : "cursor-pointer"} aria-disabled={isActive}>
+          <FileUp className="h-4 w-4" />
+          Replay session
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="sr-only"
+            disabled={isActive}
+            onChange={(e) => {
+              loadSession(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useId } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  matchingPreset,
+  RECOGNITION_PRESETS,
+  type RecognitionPreset,
+  type RecognitionSettings,
+} from "@/hooks/use-recognition-settings";
+
+interface SettingSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+function SettingSlider({ label, value, min, max, step, format, onChange }: SettingSliderProps) {
+  const id = useId();
+  return (
+    <div className="flex items-center gap-3">
+      <span id={id} className="w-32 text-sm font-medium text-muted-foreground">
+        {label}:
+      </span>
+      <Slider
+        className="flex-1"
+        min={min}
+        max={max}
+        step={step}
+        value={[value]}
+        onValueChange={([next]) => onChange(next)}
+        aria-labelledby={id}
+      />
+      <span className="w-14 text-right text-sm text-muted-foreground tabular-nums">{format(value)}</span>
+    </div>
+  );
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+interface RecognitionSettingsSheetProps {
+  settings: RecognitionSettings;
+  updateSettings: (patch: Partial<RecognitionSettings>) => void;
+}
+
+// Tracking and stabilizer tuning. Everything applies to the next detection
+// frame.
+export function RecognitionSettingsSheet({ settings, updateSettings }: RecognitionSettingsSheetProps) {
+  const preset = matchingPreset(settings);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="lg" aria-label="Open recognition settings">
+          <SlidersHorizontal className="h-5 w-5" />
+          Tuning
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Recognition settings</SheetTitle>
+          <SheetDescription>
+            Tune hand tracking and sign confirmation for your hardware and lighting. Changes are saved on this device.
+          </SheetDescription>
+        </SheetHeader>
+
+        <section className="mt-6" aria-labelledby="preset-label">
+          <h3 id="preset-label" className="text-sm font-semibold text-foreground mb-2">
+            Preset
+          </h3>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            className="justify-start"
+            value={preset ?? ""}
+            onValueChange={(value) =>
+              value && updateSettings(RECOGNITION_PRESETS[value as RecognitionPreset].values)}
+            aria-labelledby="preset-label"
+          >
+            {(Object.keys(RECOGNITION_PRESETS) as RecognitionPreset[]).map((id) => (
+              <ToggleGroupItem key={id} value={id}>
+                {RECOGNITION_PRESETS[id].label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {preset ? RECOGNITION_PRESETS[preset].description : "Custom values."}
+          </p>
+        </section>
+
+        <section className="mt-6 flex flex-col gap-3" aria-labelledby="tracking-settings-label">
+          <h3 id="tracking-settings-label" className="text-sm font-semibold text-foreground">
+            Hand tracking
+          </h3>
+          <div className="flex items-center gap-3">
+            <span id="model-complexity-label" className="w-32 text-sm font-medium text-muted-foreground">
+              Landmark model:
+            </span>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={String(settings.modelComplexity)}
+              onValueChange={(value) => value && updateSettings({ modelComplexity: value === "1" ? 1 : 0 })}
+              aria-labelledby="model-complexity-label"
+            >
+              <ToggleGroupItem value="0" aria-label="Lite landmark model">Lite</ToggleGroupItem>
+              <ToggleGroupItem value="1" aria-label="Full landmark model">Full</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The full model is steadier on unusual handshapes but slower.
+          </p>
+          <SettingSlider
+            label="Detection"
+            value={settings.minDetectionConfidence}
+            min={0.1}
+            max={0.95}
+            step={0.05}
+            format={percent}
+            onChange={(minDetectionConfidence) => updateSettings({ minDetectionConfidence })}
+          />
+          <SettingSlider
+            label="Tracking"
+            value={settings.minTrackingConfidence}
+            min={0.1}
+            max={0.95}
+            step={0.05}
+            format={percent}
+            onChange={(minTrackingConfidence) => updateSettings({ minTrackingConfidence })}
+          />
+          <p className="text-xs text-muted-foreground">
+            Raise detection in cluttered scenes to ignore hand-like shapes. Lower tracking keeps following a hand
+            without searching the frame again, which saves power.
+          </p>
+          {/* The scheduler backs off further on slow devices */}
+          <SettingSlider
+            label="Detection rate"
+            value={settings.targetFps}
+            min={5}
+            max={30}
+            step={1}
+            format={(value) => `${value} fps`}
+            onChange={(targetFps) => updateSettings({ targetFps })}
+          />
+        </section>
+
+        <section className="mt-6 flex flex-col gap-3" aria-labelledby="confirmation-settings-label">
+          <h3 id="confirmation-settings-label" className="text-sm font-semibold text-foreground">
+            Sign confirmation
+          </h3>
+          <SettingSlider
+            label="Reject below"
+            value={settings.rejectionThreshold}
+            min={0}
+            max={0.95}
+            step={0.05}
+            format={percent}
+            onChange={(rejectionThreshold) => updateSettings({ rejectionThreshold })}
+          />
+          <SettingSlider
+            label="Hold to confirm"
+            value={settings.holdMs}
+            min={200}
+            max={1500}
+            step={100}
+            format={(value) => `${(value / 1000).toFixed(1)} s`}
+            onChange={(holdMs) => updateSettings({ holdMs })}
+          />
+        </section>
+
+        {/* Landmark smoothing against jitter */}
+        <section className="mt-6 flex flex-col gap-3" aria-labelledby="smoothing-settings-label">
+          <h3 id="smoothing-settings-label" className="text-sm font-semibold text-foreground">
+            Smoothing
+          </h3>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="smoothing"
+              checked={settings.smoothing}
+              onCheckedChange={(smoothing) => updateSettings({ smoothing })}
+            />
+            <Label htmlFor="smoothing" className="text-sm text-muted-foreground">
+              Smooth hand tracking
+            </Label>
+          </div>
+          {settings.smoothing && (
+            <>
+              <SettingSlider
+                label="Steadiness"
+                value={settings.smoothingMinCutoff}
+                min={0.1}
+                max={5}
+                step={0.1}
+                format={(value) => `${value.toFixed(1)} Hz`}
+                onChange={(smoothingMinCutoff) => updateSettings({ smoothingMinCutoff })}
+              />
+              <SettingSlider
+                label="Responsiveness"
+                value={settings.smoothingBeta}
+                min={0}
+                max={50}
+                step={1}
+                format={String}
+                onChange={(smoothingBeta) => updateSettings({ smoothingBeta })}
+              />
+              <p className="text-xs text-muted-foreground">
+                A lower cutoff steadies a still hand; higher responsiveness reduces lag when it moves.
+              </p>
+            </>
+          )}
+        </section>
+      </SheetContent>
+    </Sheet>
+  );
+}
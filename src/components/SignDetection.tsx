@@ -1,313 +1,207 @@
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import { Camera, CameraOff, Hand, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { StatusIndicator } from "@/components/StatusIndicator";
+import { CustomSignsPanel } from "@/components/CustomSignsPanel";
+import { HandProfilesPanel } from "@/components/HandProfilesPanel";
+import { LandmarkSessionControls } from "@/components/LandmarkSessionControls";
+import { ClassifierControls } from "@/components/ClassifierControls";
+import { RecognitionSettingsSheet } from "@/components/RecognitionSettingsSheet";
+import { SpellingSuggestions } from "@/components/SpellingSuggestions";
+import { GestureDebugPanel } from "@/components/GestureDebugPanel";
+import { HoldProgressRing } from "@/components/HoldProgressRing";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
+import { useRecognitionSettings, type DominantHand, type TrackingMode } from "@/hooks/use-recognition-settings";
+import { useGestureModel } from "@/hooks/use-gesture-model";
+import { useCustomSigns } from "@/hooks/use-custom-signs";
+import { useHandProfiles } from "@/hooks/use-hand-profiles";
+import { isLetter, useFingerspelling } from "@/hooks/use-fingerspelling";
+import { useLexicon } from "@/hooks/use-lexicon";
+import { useGlossSentence } from "@/hooks/use-gloss-sentence";
+import { toast } from "@/hooks/use-toast";
+import { createDetector, createReplayDetector, type Detector } from "@/lib/detector";
+import type { ClassifierSpec } from "@/lib/frame-analysis";
+import { createFrameScheduler, type FrameScheduler, type FrameStats } from "@/lib/frame-scheduler";
+import type { TrackedFrame } from "@/lib/hand-tracking";
+import {
+  createSessionRecorder,
+  downloadLandmarkSession,
+  sessionDuration,
+  type LandmarkSession,
+  type SessionRecorder,
+} from "@/lib/landmark-session";
+import { bundledSource } from "@/lib/mediapipe-assets";
+import { createRepeatGate, REPEAT_SIGN } from "@/lib/repeat-gate";
+import { createSignStabilizer, type HoldState } from "@/lib/sign-stabilizer";
+import { displayWord, type LexiconEntry } from "@/lib/lexicon";
+import { formatNumber } from "@/lib/numbers";
+import { suggestWords, type SpelledLetter } from "@/lib/spelling";
+import type { FrameResult } from "@/workers/detection-protocol";
+import {
+  canSpell,
+  dominantHandOf,
+  getSignLanguagePack,
+  glossFor,
+  handFeatureVector,
+  isUnknown,
+  numberFor,
+  packVocabulary,
+  type BodyReference,
+  type CalibrationCapture,
+  type CalibrationStep,
+  type DefinitionMatch,
+  type GestureCandidate,
+  type GestureResult,
+  type Handedness,
+} from "@shared/gesture";
+import type { NormalizedLandmark } from "@/types/mediapipe.d";
+
+// Hand connections for drawing
+const HAND_CONNECTIONS = [
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  [0, 9], [9, 10], [10, 11], [11, 12],
+  [0, 13], [13, 14], [14, 15], [15, 16],
+  [0, 17], [17, 18], [18, 19], [19, 20],
+  [5, 9], [9, 13], [13, 17]
+];
+
+// Skeleton colour per hand so both hands can be told apart
+const HAND_COLORS: Record<Handedness, string> = {
+  Right: '#00FF00',
+  Left: '#00BFFF',
+};
 
-interface SignDetectionProps {
-  language: string;
-  onDetection?: (text: string) => void;
-}
-
-// Simple gesture classifier based on hand landmarks - ASL Alphabet A-Z + common signs
-const classifyGesture = (landmarks: number[][]): { gesture: string; confidence: number } | null => {
-  if (!landmarks || landmarks.length !== 21) return null;
-
-  // Get key landmark positions
-  const wrist = landmarks[0];
-  const thumbCmc = landmarks[1];
-  const thumbMcp = landmarks[2];
-  const thumbIp = landmarks[3];
-  const thumbTip = landmarks[4];
-  const indexMcp = landmarks[5];
-  const indexPip = landmarks[6];
-  const indexDip = landmarks[7];
-  const indexTip = landmarks[8];
-  const middleMcp = landmarks[9];
-  const middlePip = landmarks[10];
-  const middleDip = landmarks[11];
-  const middleTip = landmarks[12];
-  const ringMcp = landmarks[13];
-  const ringPip = landmarks[14];
-  const ringDip = landmarks[15];
-  const ringTip = landmarks[16];
-  const pinkyMcp = landmarks[17];
-  const pinkyPip = landmarks[18];
-  const pinkyDip = landmarks[19];
-  const pinkyTip = landmarks[20];
-
-  // Helper functions
-  const distance = (p1: number[], p2: number[]) => 
-    Math.sqrt(Math.pow(p1[0] - p2[0], 2) + Math.pow(p1[1] - p2[1], 2));
-
-  // Check if fingers are extended (tip above PIP in y-axis)
-  const thumbExtended = thumbTip[0] < thumbIp[0]; // thumb extends outward (for right hand)
-  const indexExtended = indexTip[1] < indexPip[1];
-  const middleExtended = middleTip[1] < middlePip[1];
-  const ringExtended = ringTip[1] < ringPip[1];
-  const pinkyExtended = pinkyTip[1] < pinkyPip[1];
-  
-  // Check if fingers are curled (tip below MCP)
-  const indexCurled = indexTip[1] > indexMcp[1];
-  const middleCurled = middleTip[1] > middleMcp[1];
-  const ringCurled = ringTip[1] > ringMcp[1];
-  const pinkyCurled = pinkyTip[1] > pinkyMcp[1];
-
-  // Check finger touching thumb
-  const thumbIndexTouch = distance(thumbTip, indexTip) < 0.08;
-  const thumbMiddleTouch = distance(thumbTip, middleTip) < 0.08;
-  const thumbRingTouch = distance(thumbTip, ringTip) < 0.08;
-  const thumbPinkyTouch = distance(thumbTip, pinkyTip) < 0.08;
-
-  // Count extended fingers (not including thumb)
-  const extendedCount = [indexExtended, middleExtended, ringExtended, pinkyExtended].filter(Boolean).length;
-  
-  // Finger spread - distance between index and pinky tips
-  const fingerSpread = distance(indexTip, pinkyTip);
-  
-  // Check if fingers are together
-  const fingersTogether = distance(indexTip, middleTip) < 0.06 && 
-                          distance(middleTip, ringTip) < 0.06;
-
-  // ===== ASL ALPHABET DETECTION =====
-  
-  // A - Fist with thumb beside (thumb not tucked)
-  if (!indexExtended && !middleExtended && !ringExtended && !pinkyExtended && 
-      thumbTip[1] < indexMcp[1] && thumbTip[0] > indexMcp[0]) {
-    return { gesture: "A", confidence: 0.82 };
-  }
-
-  // B - Flat hand, fingers together, thumb tucked
-  if (indexExtended && middleExtended && ringExtended && pinkyExtended && 
-      !thumbExtended && fingersTogether) {
-    return { gesture: "B", confidence: 0.85 };
-  }
-
-  // C - Curved hand like holding a cup
-  if (!indexExtended && !middleExtended && !ringExtended && !pinkyExtended &&
-      thumbTip[1] > thumbMcp[1] && distance(thumbTip, indexTip) > 0.1 && 
-      distance(thumbTip, indexTip) < 0.25) {
-    return { gesture: "C", confidence: 0.78 };
-  }
-
-  // D - Index up, others touch thumb
-  if (indexExtended && !middleExtended && !ringExtended && !pinkyExtended && thumbMiddleTouch) {
-    return { gesture: "D", confidence: 0.85 };
-  }
-
-  // E - All fingers curled, thumb tucked under
-  if (indexCurled && middleCurled && ringCurled && pinkyCurled && 
-      thumbTip[1] > indexPip[1]) {
-    return { gesture: "E", confidence: 0.80 };
-  }
-
-  // F - OK sign with three fingers up (thumb and index touch)
-  if (thumbIndexTouch && middleExtended && ringExtended && pinkyExtended) {
-    return { gesture: "F", confidence: 0.85 };
-  }
-
-  // G - Index pointing sideways, thumb parallel
-  if (indexExtended && !middleExtended && !ringExtended && !pinkyExtended &&
-      Math.abs(indexTip[1] - thumbTip[1]) < 0.1 && 
-      thumbTip[0] < indexMcp[0]) {
-    return { gesture: "G", confidence: 0.78 };
-  }
-
-  // H - Index and middle pointing sideways
-  if (indexExtended && middleExtended && !ringExtended && !pinkyExtended &&
-      Math.abs(indexTip[0] - middleTip[0]) < 0.08) {
-    return { gesture: "H", confidence: 0.80 };
-  }
-
-  // I - Pinky up only
-  if (!indexExtended && !middleExtended && !ringExtended && pinkyExtended && !thumbExtended) {
-    return { gesture: "I", confidence: 0.88 };
-  }
-
-  // J - Like I but with motion (we detect static I shape tilted)
-  // Simplified: Pinky extended and angled
-  if (!indexExtended && !middleExtended && !ringExtended && pinkyExtended &&
-      pinkyTip[0] < pinkyMcp[0]) {
-    return { gesture: "J", confidence: 0.75 };
-  }
-
-  // K - Index and middle up in V, thumb between them
-  if (indexExtended && middleExtended && !ringExtended && !pinkyExtended &&
-      thumbTip[1] < middleMcp[1] && distance(indexTip, middleTip) > 0.08) {
-    return { gesture: "K", confidence: 0.82 };
-  }
-
-  // L - L shape with thumb and index
-  if (indexExtended && !middleExtended && !ringExtended && !pinkyExtended && 
-      thumbExtended && Math.abs(thumbTip[0] - indexMcp[0]) > 0.1) {
-    return { gesture: "L", confidence: 0.88 };
-  }
-
-  // M - Three fingers over thumb
-  if (!indexExtended && !middleExtended && !ringExtended && !pinkyExtended &&
-      thumbTip[1] > ringMcp[1] && indexTip[1] > thumbTip[1]) {
-    return { gesture: "M", confidence: 0.75 };
-  }
-
-  // N - Two fingers over thumb  
-  if (!indexExtended && !middleExtended && !ringExtended && !pinkyExtended &&
-      thumbTip[1] > middleMcp[1] && indexTip[1] > thumbTip[1] && 
-      ringTip[1] < thumbTip[1]) {
-    return { gesture: "N", confidence: 0.75 };
-  }
-
-  // O - Fingers curved to touch thumb (circular)
-  if (thumbIndexTouch && thumbMiddleTouch && !ringExtended && !pinkyExtended) {
-    return { gesture: "O", confidence: 0.80 };
-  }
-
-  // P - Like K but pointing down
-  if (indexExtended && middleExtended && !ringExtended && !pinkyExtended &&
-      indexTip[1] > indexMcp[1] && middleTip[1] > middleMcp[1]) {
-    return { gesture: "P", confidence: 0.78 };
-  }
-
-  // Q - Like G but pointing down
-  if (indexExtended && !middleExtended && !ringExtended && !pinkyExtended &&
-      indexTip[1] > wrist[1] && thumbExtended) {
-    return { gesture: "Q", confidence: 0.75 };
-  }
-
-  // R - Index and middle crossed
-  if (indexExtended && middleExtended && !ringExtended && !pinkyExtended &&
-      distance(indexTip, middleTip) < 0.04) {
-    return { gesture: "R", confidence: 0.80 };
-  }
-
-  // S - Fist with thumb over fingers
-  if (!indexExtended && !middleExtended && !ringExtended && !pinkyExtended && 
-      thumbTip[1] > indexMcp[1] && thumbTip[0] < indexTip[0]) {
-    return { gesture: "S", confidence: 0.82 };
-  }
-
-  // T - Thumb between index and middle (fist)
-  if (!indexExtended && !middleExtended && !ringExtended && !pinkyExtended &&
-      thumbTip[0] > indexMcp[0] && thumbTip[0] < middleMcp[0]) {
-    return { gesture: "T", confidence: 0.78 };
-  }
-
-  // U - Index and middle up together
-  if (indexExtended && middleExtended && !ringExtended && !pinkyExtended &&
-      distance(indexTip, middleTip) < 0.05 && !thumbExtended) {
-    return { gesture: "U", confidence: 0.85 };
-  }
-
-  // V - Peace sign (index and middle spread)
-  if (indexExtended && middleExtended && !ringExtended && !pinkyExtended &&
-      distance(indexTip, middleTip) > 0.08) {
-    return { gesture: "V", confidence: 0.88 };
-  }
-
-  // W - Three fingers up spread
-  if (indexExtended && middleExtended && ringExtended && !pinkyExtended && !thumbExtended) {
-    return { gesture: "W", confidence: 0.85 };
-  }
-
-  // X - Index bent like hook
-  if (!middleExtended && !ringExtended && !pinkyExtended &&
-      indexTip[1] > indexPip[1] && indexPip[1] < indexMcp[1]) {
-    return { gesture: "X", confidence: 0.78 };
-  }
-
-  // Y - Thumb and pinky extended (shaka/hang loose)
-  if (thumbExtended && !indexExtended && !middleExtended && !ringExtended && pinkyExtended) {
-    return { gesture: "Y", confidence: 0.88 };
-  }
-
-  // Z - Index traces Z shape (static: pointing with angle)
-  if (indexExtended && !middleExtended && !ringExtended && !pinkyExtended &&
-      indexTip[0] !== indexMcp[0]) {
-    return { gesture: "Z", confidence: 0.70 };
-  }
-
-  // ===== COMMON SIGNS =====
-
-  // Number 1 / pointing: only index extended (basic)
-  if (indexExtended && !middleExtended && !ringExtended && !pinkyExtended && !thumbExtended) {
-    return { gesture: "1", confidence: 0.85 };
-  }
-
-  // Number 2 / Peace
-  if (indexExtended && middleExtended && !ringExtended && !pinkyExtended) {
-    return { gesture: "2", confidence: 0.82 };
-  }
-
-  // Number 3
-  if (indexExtended && middleExtended && ringExtended && !pinkyExtended && thumbExtended) {
-    return { gesture: "3", confidence: 0.80 };
-  }
-
-  // Number 4: all fingers except thumb extended
-  if (indexExtended && middleExtended && ringExtended && pinkyExtended && !thumbExtended) {
-    return { gesture: "4", confidence: 0.80 };
+// Mark the face and chest reference points used for location-dependent signs
+function drawBodyReference(ctx: CanvasRenderingContext2D, body: BodyReference, width: number, height: number) {
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  for (const point of [body.forehead, body.chin, body.chest]) {
+    if (!point) continue;
+    ctx.beginPath();
+    ctx.arc((1 - point[0]) * width, point[1] * height, 6, 0, 2 * Math.PI);
+    ctx.fill();
   }
+}
 
-  // Number 5 / Open hand / Hello
-  if (thumbExtended && indexExtended && middleExtended && ringExtended && pinkyExtended) {
-    return { gesture: "Hello", confidence: 0.88 };
-  }
+// How long a custom sign is recorded, and how often a sample is taken
+const RECORDING_MS = 3000;
+const SAMPLE_INTERVAL_MS = 100;
+const MIN_SAMPLES = 10;
 
-  // Thumbs up = Yes
-  if (thumbExtended && extendedCount === 0) {
-    return { gesture: "Yes", confidence: 0.85 };
-  }
+interface CustomSignRecording {
+  label: string;
+  samples: number[][];
+  lastSampleAt: number;
+}
 
-  // I Love You: thumb, index, and pinky extended
-  if (thumbExtended && indexExtended && !middleExtended && !ringExtended && pinkyExtended) {
-    return { gesture: "I Love You", confidence: 0.85 };
-  }
+// How long each hand profile calibration pose is captured
+const CALIBRATION_CAPTURE_MS = 1500;
 
-  // Fist / No: no fingers extended
-  if (!thumbExtended && extendedCount === 0) {
-    return { gesture: "No", confidence: 0.80 };
-  }
+// Dropping the hand for longer than this ends the word or number being
+// entered. Shorter drops release a double letter or are tracking dropouts.
+const HAND_DROP_COMMIT_MS = 700;
 
-  // Thank You - fingers touching forming OK
-  if (thumbIndexTouch && middleExtended && ringExtended && pinkyExtended) {
-    return { gesture: "Thank You", confidence: 0.82 };
-  }
+// A replay keeps running this long after its last frame, so a sign held at
+// the end of the recording can still be confirmed
+const REPLAY_TAIL_MS = 1000;
 
-  return null;
-};
+interface SignDetectionProps {
+  language: string;
+  // Id of the sign-language pack to recognize
+  signLanguage: string;
+  onDetection?: (text: string) => void;
+}
 
-export function SignDetection({ language, onDetection }: SignDetectionProps) {
+export function SignDetection({ language, signLanguage, onDetection }: SignDetectionProps) {
   const [isActive, setIsActive] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [detectedText, setDetectedText] = useState<string>("");
+  // Signs in the order they were made, before translation
+  const [glosses, setGlosses] = useState<string[]>([]);
   const [currentGesture, setCurrentGesture] = useState<string>("");
   const [confidence, setConfidence] = useState<number>(0);
+  const [lastResult, setLastResult] = useState<GestureResult | null>(null);
+  const [showDebug, setShowDebug] = useState(false);
+  const [explanation, setExplanation] = useState<DefinitionMatch[] | null>(null);
   const [isDetecting, setIsDetecting] = useState(false);
   const [handDetected, setHandDetected] = useState(false);
+  const [detectedHands, setDetectedHands] = useState<Handedness[]>([]);
+  const { settings, updateSettings } = useRecognitionSettings();
+  const pack = getSignLanguagePack(signLanguage);
+  const vocabulary = useMemo(() => packVocabulary(pack), [pack]);
+  const {
+    model, hasModel, hasUserModel, isModelLoading, modelError, loadModel, removeModel,
+  } = useGestureModel(settings.classifier, pack);
+  const { samples: customSamples, addSign } = useCustomSigns();
+  const [recordingProgress, setRecordingProgress] = useState<number | null>(null);
+  const { profiles: handProfiles } = useHandProfiles();
+  const [captureProgress, setCaptureProgress] = useState<number | null>(null);
+  // Recording the tracker's output, or playing a recording back instead of the camera
+  const [isRecordingSession, setIsRecordingSession] = useState(false);
+  // Tracking mode of the session being replayed; it stands in for the setting
+  // while the replay runs
+  const [replayTracking, setReplayTracking] = useState<TrackingMode | null>(null);
+  const isReplaying = replayTracking !== null;
+  const { lexicon: languageLexicon, userWords, addWord, removeWord } = useLexicon(language);
+  // Only words the pack can fingerspell are suggested
+  const lexicon = useMemo(
+    () => languageLexicon.filter((entry) => canSpell(pack, entry.spelling)),
+    [languageLexicon, pack],
+  );
+  // Last committed spelled word, replaceable by a suggestion until another sign follows
+  const [lastSpelled, setLastSpelled] = useState<{ word: string; letters: SpelledLetter[] } | null>(null);
+
+  // Custom signs are recognized alongside the built-in ones
+  const classifierSpec = useMemo<ClassifierSpec>(
+    () => ({ signLanguage, model, samples: customSamples }),
+    [signLanguage, model, customSamples],
+  );
+  // Where tracking and classification run, once started
+  const [detectorThread, setDetectorThread] = useState<Detector["runsIn"] | null>(null);
+  // Live detection rate and latency
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  // Sign being held until it is confirmed
+  const [hold, setHold] = useState<HoldState | null>(null);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const animationRef = useRef<number | null>(null);
-  const lastDetectionRef = useRef<number>(0);
-  const handsRef = useRef<any>(null);
-  const lastGestureRef = useRef<string>("");
-  const gestureCountRef = useRef<number>(0);
-
-  // Hand connections for drawing
-  const HAND_CONNECTIONS = [
-    [0, 1], [1, 2], [2, 3], [3, 4],
-    [0, 5], [5, 6], [6, 7], [7, 8],
-    [0, 9], [9, 10], [10, 11], [11, 12],
-    [0, 13], [13, 14], [14, 15], [15, 16],
-    [0, 17], [17, 18], [18, 19], [19, 20],
-    [5, 9], [9, 13], [13, 17]
-  ];
+  const schedulerRef = useRef<FrameScheduler | null>(null);
+  const detectorRef = useRef<Detector | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const classifierSpecRef = useRef(classifierSpec);
+  classifierSpecRef.current = classifierSpec;
+  const recordingRef = useRef<CustomSignRecording | null>(null);
+  const recordingTimerRef = useRef<number | null>(null);
+  // Calibration pose being captured, and how to end the capture early
+  const calibrationRef = useRef<CalibrationCapture | null>(null);
+  const endCalibrationRef = useRef<(() => void) | null>(null);
+  // The active hand profile, or none when it was deleted
+  const handProfile = handProfiles.find((profile) => profile.id === settings.handProfileId) ?? null;
+  const handProfileRef = useRef(handProfile);
+  handProfileRef.current = handProfile;
+  const sessionRecorderRef = useRef<SessionRecorder | null>(null);
+  const replayRef = useRef<LandmarkSession | null>(null);
+  // Lets a replay stop detection once it runs out of frames
+  const stopDetectionRef = useRef(() => {});
+  const packRef = useRef(pack);
+  packRef.current = pack;
+  const appendQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const repeatGateRef = useRef(createRepeatGate());
+  const stabilizerRef = useRef(createSignStabilizer(settings.holdMs));
+  const showDebugRef = useRef(showDebug);
+  showDebugRef.current = showDebug;
 
   // Draw hand landmarks on canvas
-  const drawHandLandmarks = useCallback((ctx: CanvasRenderingContext2D, landmarks: any[], width: number, height: number) => {
-    ctx.strokeStyle = '#00FF00';
+  const drawHandLandmarks = useCallback((ctx: CanvasRenderingContext2D, landmarks: NormalizedLandmark[], width: number, height: number, handedness?: Handedness) => {
+    ctx.strokeStyle = handedness ? HAND_COLORS[handedness] : '#00FF00';
     ctx.lineWidth = 3;
     
     for (const [start, end] of HAND_CONNECTIONS) {
@@ -325,213 +219,494 @@ export function SignDetection({ language, onDetection }: SignDetectionProps) {
       ctx.arc(landmark.x * width, landmark.y * height, 5, 0, 2 * Math.PI);
       ctx.fill();
     }
-  }, [HAND_CONNECTIONS]);
 
-  // Process detected gesture
-  const processGesture = useCallback(async (gesture: string, conf: number) => {
-    // Require same gesture detected 3 times in a row for stability
-    if (gesture === lastGestureRef.current) {
-      gestureCountRef.current++;
-    } else {
-      lastGestureRef.current = gesture;
-      gestureCountRef.current = 1;
+    // Label the hand next to its wrist
+    if (handedness) {
+      const wrist = landmarks[0];
+      ctx.font = 'bold 16px sans-serif';
+      ctx.fillStyle = HAND_COLORS[handedness];
+      ctx.fillText(handedness, wrist.x * width + 10, wrist.y * height + 20);
     }
+  }, []);
+
+  // Translate a recognized word into the output language and append it.
+  // Appends are queued so slow translations cannot reorder the text.
+  const appendWord = useCallback((word: string, translate = true) => {
+    appendQueueRef.current = appendQueueRef.current.then(async () => {
+      // Translate if not English
+      let displayText = word;
+      if (translate && language !== 'en') {
+        try {
+          const { data: translationData } = await supabase.functions.invoke('translate-text', {
+            body: {
+              text: word,
+              sourceLanguage: 'en',
+              targetLanguage: language
+            }
+          });
+          
+          if (translationData?.translatedText) {
+            displayText = translationData.translatedText;
+          }
+        } catch (err) {
+          console.error('Translation error:', err);
+        }
+      }
+
+      setGlosses(prev => [...prev, word]);
+      setDetectedText(prev => prev ? `${prev} ${displayText}` : displayText);
+    });
+    return appendQueueRef.current;
+  }, [language]);
+
+  // The glosses smoothed into a sentence, with the word-by-word translation
+  // as a fallback until it arrives
+  const { sentence, isSmoothing } = useGlossSentence(glosses, language);
+  const outputText = sentence ?? detectedText;
+
+  useEffect(() => {
+    onDetection?.(outputText);
+  }, [onDetection, outputText]);
+
+  // Spelled words are the signer's own spelling and are not translated
+  const commitSpelledWord = useCallback((word: string, letters: SpelledLetter[]) => {
+    appendWord(word, false).then(() => setLastSpelled({ word, letters }));
+  }, [appendWord]);
 
-    if (gestureCountRef.current < 3) return;
+  const spelling = useFingerspelling(commitSpelledWord);
+  const { addLetter, endWord, reset: resetSpelling } = spelling;
+
+  // Digits compose into one number, formatted for the output language
+  const commitNumber = useCallback((digits: string) => {
+    appendWord(formatNumber(digits, language), false).then(() => setLastSpelled(null));
+  }, [appendWord, language]);
+
+  const numberEntry = useFingerspelling(commitNumber);
+  const { addLetter: addDigits, endWord: endNumber, reset: resetNumber } = numberEntry;
+
+  const spelledWord = spelling.word || lastSpelled?.word || "";
+  const suggestions = useMemo(
+    () => suggestWords(spelling.letters.length > 0 ? spelling.letters : lastSpelled?.letters ?? [], lexicon),
+    [spelling.letters, lastSpelled, lexicon],
+  );
+  // Compared by spelling, so transliterated words count as known too
+  const isKnownWord = lexicon.some((entry) => entry.spelling === spelledWord);
+
+  // Replace the word being spelled, or the one just committed, with a suggestion
+  const applySuggestion = useCallback((entry: LexiconEntry) => {
+    const word = displayWord(entry, language);
+    if (spelling.letters.length > 0) {
+      resetSpelling();
+      appendWord(word, false).then(() => setLastSpelled(null));
+      return;
+    }
+    if (!lastSpelled) return;
+    setDetectedText(prev => {
+      if (!prev.endsWith(lastSpelled.word)) return prev;
+      return prev.slice(0, prev.length - lastSpelled.word.length) + word;
+    });
+    setGlosses(prev => prev[prev.length - 1] === lastSpelled.word ? [...prev.slice(0, -1), word] : prev);
+    setLastSpelled(null);
+  }, [appendWord, language, lastSpelled, resetSpelling, spelling.letters]);
+
+  // Progress moves every frame; only re-render for visible changes
+  const updateHold = useCallback((next: HoldState) => {
+    setHold((prev) => {
+      const progress = Math.round(next.progress * 20) / 20;
+      if (prev && prev.gesture === next.gesture && prev.confirmed === next.confirmed && prev.progress === progress) {
+        return prev;
+      }
+      return next.gesture ? { ...next, progress } : null;
+    });
+  }, []);
 
+  // Commit a confirmed sign: a stable static shape or a completed movement
+  const commitGesture = useCallback(async (
+    gesture: string,
+    conf: number,
+    candidates: GestureCandidate[] = [],
+  ) => {
     setCurrentGesture(gesture);
     setConfidence(conf);
 
-    // Translate if not English
-    let displayText = gesture;
-    if (language !== 'en') {
-      try {
-        const { data: translationData } = await supabase.functions.invoke('translate-text', {
-          body: {
-            text: gesture,
-            sourceLanguage: 'en',
-            targetLanguage: language
-          }
+    // Only emit the same sign again after the hand was released
+    const token = repeatGateRef.current.accept(gesture, Date.now());
+    if (!token) return;
+
+    const { fingerspelling, numberMode } = settingsRef.current;
+    const digits = numberMode ? numberFor(packRef.current, token) : null;
+    if (digits !== null) {
+      endWord();
+      addDigits(digits);
+    } else if (fingerspelling && isLetter(token)) {
+      endNumber();
+      addLetter(token, candidates);
+    } else {
+      // A whole sign ends any word or number being entered
+      endWord();
+      endNumber();
+      await appendWord(token);
+      setLastSpelled(null);
+    }
+  }, [addDigits, addLetter, appendWord, endNumber, endWord]);
+
+  const cancelRecording = useCallback(() => {
+    if (recordingTimerRef.current) {
+      clearInterval(recordingTimerRef.current);
+      recordingTimerRef.current = null;
+    }
+    recordingRef.current = null;
+    setRecordingProgress(null);
+  }, []);
+
+  // Record samples of a custom sign for a few seconds, then save them
+  const startRecording = useCallback((label: string) => {
+    cancelRecording();
+    recordingRef.current = { label, samples: [], lastSampleAt: 0 };
+    setRecordingProgress(0);
+
+    const startedAt = Date.now();
+    recordingTimerRef.current = window.setInterval(async () => {
+      const elapsed = Date.now() - startedAt;
+      setRecordingProgress(Math.min(100, (elapsed / RECORDING_MS) * 100));
+      if (elapsed < RECORDING_MS) return;
+
+      const samples = recordingRef.current?.samples ?? [];
+      cancelRecording();
+      if (samples.length < MIN_SAMPLES) {
+        toast({
+          title: "Sign not saved",
+          description: "Keep your hand in view of the camera while recording.",
+          variant: "destructive",
         });
-        
-        if (translationData?.translatedText) {
-          displayText = translationData.translatedText;
-        }
+        return;
+      }
+      try {
+        await addSign({ label, samples });
+        toast({ title: `Learned "${label}"`, description: `${samples.length} samples saved on this device.` });
       } catch (err) {
-        console.error('Translation error:', err);
+        console.error("Failed to save custom sign:", err);
+        toast({ title: "Sign not saved", description: "Could not store the sign in this browser.", variant: "destructive" });
       }
-    }
+    }, SAMPLE_INTERVAL_MS);
+  }, [addSign, cancelRecording]);
+
+  // Capture the signer's hand in one calibration pose. Stopping the camera
+  // ends the capture early with whatever was tracked so far.
+  const captureCalibration = useCallback((step: CalibrationStep) => new Promise<CalibrationCapture>((resolve) => {
+    endCalibrationRef.current?.();
+    const capture: CalibrationCapture = { ...step, frames: [] };
+    calibrationRef.current = capture;
+    setCaptureProgress(0);
+
+    const startedAt = Date.now();
+    const timer = window.setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      setCaptureProgress(Math.min(100, (elapsed / CALIBRATION_CAPTURE_MS) * 100));
+      if (elapsed >= CALIBRATION_CAPTURE_MS) end();
+    }, SAMPLE_INTERVAL_MS);
+    const end = () => {
+      clearInterval(timer);
+      endCalibrationRef.current = null;
+      calibrationRef.current = null;
+      setCaptureProgress(null);
+      resolve(capture);
+    };
+    endCalibrationRef.current = end;
+  }), []);
 
-    // Only add if different from last added gesture
-    setDetectedText(prev => {
-      const words = prev.split(' ').filter(Boolean);
-      const lastWord = words[words.length - 1];
-      if (lastWord !== displayText) {
-        const newText = prev ? `${prev} ${displayText}` : displayText;
-        onDetection?.(newText);
-        return newText;
-      }
-      return prev;
-    });
+  // Record what the tracker emits until stopped, then download it
+  const startSessionRecording = useCallback(() => {
+    sessionRecorderRef.current = createSessionRecorder(replayRef.current?.tracking ?? settingsRef.current.tracking);
+    setIsRecordingSession(true);
+  }, []);
 
-    // Reset counter to prevent rapid repeats
-    gestureCountRef.current = 0;
-  }, [language, onDetection]);
+  const stopSessionRecording = useCallback(() => {
+    const recorder = sessionRecorderRef.current;
+    sessionRecorderRef.current = null;
+    setIsRecordingSession(false);
+    if (!recorder) return;
+    if (recorder.frameCount === 0) {
+      toast({ title: "Session not saved", description: "No frames were tracked while recording.", variant: "destructive" });
+      return;
+    }
+    downloadLandmarkSession(recorder.finish());
+    toast({ title: "Session recorded", description: `${recorder.frameCount} frames saved.` });
+  }, []);
 
-  // Start camera and detection
-  const startDetection = useCallback(async () => {
+  // Start camera and detection, or play a recorded session without the camera
+  const startDetection = useCallback(async (replay: LandmarkSession | null = null) => {
     setError(null);
     setIsLoading(true);
 
     try {
-      // Get camera stream first
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 640 },
-          height: { ideal: 480 },
-          facingMode: "user",
-        },
-      });
-
-      if (!videoRef.current || !canvasRef.current) {
-        throw new Error('Video elements not ready');
-      }
-
-      videoRef.current.srcObject = stream;
-      streamRef.current = stream;
-      
-      // Wait for video to be ready
-      await new Promise<void>((resolve, reject) => {
-        if (videoRef.current) {
-          videoRef.current.onloadedmetadata = () => {
-            videoRef.current?.play().then(resolve).catch(reject);
-          };
-          videoRef.current.onerror = () => reject(new Error('Video failed to load'));
+      if (replay) {
+        if (!canvasRef.current) {
+          throw new Error('Video elements not ready');
         }
-      });
+        // The canvas takes the recording's shape, so landmarks land where they were
+        replayRef.current = replay;
+        setReplayTracking(replay.tracking);
+        canvasRef.current.width = 640;
+        canvasRef.current.height = Math.round(640 / replay.frames[0].aspectRatio);
+      } else {
+        // Get camera stream first
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: {
+            width: { ideal: 640 },
+            height: { ideal: 480 },
+            facingMode: "user",
+          },
+        });
 
-      // Set canvas size
-      const videoWidth = videoRef.current.videoWidth || 640;
-      const videoHeight = videoRef.current.videoHeight || 480;
-      canvasRef.current.width = videoWidth;
-      canvasRef.current.height = videoHeight;
+        if (!videoRef.current || !canvasRef.current) {
+          throw new Error('Video elements not ready');
+        }
 
-      setIsActive(true);
-      setIsLoading(false);
+        videoRef.current.srcObject = stream;
+        streamRef.current = stream;
 
-      // Try to load MediaPipe
-      try {
-        // Load MediaPipe Hands from CDN
+        // Wait for video to be ready
         await new Promise<void>((resolve, reject) => {
-          if ((window as any).Hands) {
-            resolve();
-            return;
+          if (videoRef.current) {
+            videoRef.current.onloadedmetadata = () => {
+              videoRef.current?.play().then(resolve).catch(reject);
+            };
+            videoRef.current.onerror = () => reject(new Error('Video failed to load'));
           }
-          const script = document.createElement('script');
-          script.src = 'https://cdn.jsdelivr.net/npm/@mediapipe/hands@0.4.1675469240/hands.min.js';
-          script.crossOrigin = 'anonymous';
-          script.onload = () => {
-            // Wait a bit for the script to fully initialize
-            setTimeout(resolve, 500);
-          };
-          script.onerror = () => reject(new Error('Failed to load MediaPipe'));
-          document.head.appendChild(script);
         });
 
-        const HandsClass = (window as any).Hands;
-        if (HandsClass) {
-          const hands = new HandsClass({
-            locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands@0.4.1675469240/${file}`
-          });
-
-          hands.setOptions({
-            maxNumHands: 1,
-            modelComplexity: 0,
-            minDetectionConfidence: 0.5,
-            minTrackingConfidence: 0.5,
-          });
-
-          hands.onResults((results: any) => {
-            const canvas = canvasRef.current;
-            const video = videoRef.current;
-            if (!canvas || !video) return;
+        // Set canvas size
+        const videoWidth = videoRef.current.videoWidth || 640;
+        const videoHeight = videoRef.current.videoHeight || 480;
+        canvasRef.current.width = videoWidth;
+        canvasRef.current.height = videoHeight;
+      }
+      // False once detection is stopped
+      const isRunning = () => (replay ? replayRef.current === replay : !!streamRef.current?.active);
 
-            const ctx = canvas.getContext('2d');
-            if (!ctx) return;
+      setIsActive(true);
+      setIsLoading(false);
 
+      // Latest tracked hands and body, drawn over every video frame. Drawing
+      // runs at the display rate whatever the detector's pace.
+      let overlay: TrackedFrame = { hands: [] };
+      const drawFrame = () => {
+        const canvas = canvasRef.current;
+        const video = videoRef.current;
+        if (!canvas || !video || !isRunning()) return;
+
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+          if (replay) {
+            // Nothing to show behind a replayed hand
+            ctx.fillStyle = '#111827';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+          } else {
             // Draw video frame (mirrored)
             ctx.save();
             ctx.scale(-1, 1);
             ctx.drawImage(video, -canvas.width, 0, canvas.width, canvas.height);
             ctx.restore();
+          }
 
-            if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-              setHandDetected(true);
-              const landmarks = results.multiHandLandmarks[0];
-              
-              // Mirror landmarks for display
-              const mirroredLandmarks = landmarks.map((lm: any) => ({
-                x: 1 - lm.x,
-                y: lm.y,
-                z: lm.z
-              }));
-              
-              drawHandLandmarks(ctx, mirroredLandmarks, canvas.width, canvas.height);
-
-              // Process gesture (throttled)
-              const now = Date.now();
-              if (now - lastDetectionRef.current > 800) {
-                lastDetectionRef.current = now;
-                setIsDetecting(true);
-                
-                const landmarkArray = landmarks.map((lm: any) => [lm.x, lm.y, lm.z || 0]);
-                const result = classifyGesture(landmarkArray);
-                
-                if (result) {
-                  processGesture(result.gesture, result.confidence);
-                }
-                
-                setIsDetecting(false);
-              }
-            } else {
-              setHandDetected(false);
-            }
+          if (overlay.body) drawBodyReference(ctx, overlay.body, canvas.width, canvas.height);
+
+          // Mirror landmarks for display
+          overlay.hands.forEach((hand) => {
+            const mirroredLandmarks = hand.landmarks.map(([x, y, z]) => ({ x: 1 - x, y, z }));
+            drawHandLandmarks(ctx, mirroredLandmarks, canvas.width, canvas.height, hand.handedness);
           });
+        }
+        animationRef.current = requestAnimationFrame(drawFrame);
+      };
+      drawFrame();
 
-          handsRef.current = hands;
+      // Try to load MediaPipe
+      try {
+        // When the hand left the frame, and whether that has ended the word yet
+        let handGoneSince: number | null = null;
+        let dropCommitted = false;
+
+        // Every tracked frame ends up here, from the worker or the main thread
+        const handleResult = ({ hands: handInputs, analysis }: FrameResult, now: number, aspectRatio: number) => {
+          const handPresent = handInputs.length > 0;
+          repeatGateRef.current.trackHand(handPresent, now);
+          if (handPresent) {
+            handGoneSince = null;
+            dropCommitted = false;
+          }
 
-          // Start detection loop
-          const detectFrame = async () => {
-            if (videoRef.current && handsRef.current && streamRef.current?.active) {
-              try {
-                await handsRef.current.send({ image: videoRef.current });
-              } catch (e) {
-                console.error('Detection frame error:', e);
+          if (!handPresent) {
+            stabilizerRef.current.reset();
+            setHold(null);
+            setHandDetected(false);
+            setDetectedHands([]);
+            setLastResult(null);
+            setExplanation(null);
+            // Only a hand that stays out of the frame ends the word or number:
+            // dropping it briefly is how a double letter is signed, and
+            // tracking dropouts must not split a word either
+            handGoneSince ??= now;
+            if (!dropCommitted && now - handGoneSince >= HAND_DROP_COMMIT_MS) {
+              dropCommitted = true;
+              endWord();
+              endNumber();
+            }
+            return;
+          }
+
+          setHandDetected(true);
+          setDetectedHands(handInputs.map((hand) => hand.handedness).filter(Boolean));
+
+          // While calibrating, capture the signer's hand instead of detecting
+          const calibration = calibrationRef.current;
+          if (calibration) {
+            const { dominantHand } = settingsRef.current;
+            const hand = dominantHandOf(handInputs, dominantHand === "auto" ? undefined : dominantHand);
+            if (hand) {
+              calibration.frames.push(hand.landmarks);
+              calibration.handedness = hand.handedness;
+              calibration.aspectRatio = aspectRatio;
+            }
+            return;
+          }
+
+          // While teaching a sign, capture samples instead of detecting
+          const recording = recordingRef.current;
+          if (recording) {
+            if (now - recording.lastSampleAt >= SAMPLE_INTERVAL_MS) {
+              const { dominantHand } = settingsRef.current;
+              const hand = dominantHandOf(handInputs, dominantHand === "auto" ? undefined : dominantHand);
+              if (hand) {
+                recording.samples.push(handFeatureVector(hand.landmarks, {
+                  handedness: hand.handedness,
+                  aspectRatio,
+                }));
+                recording.lastSampleAt = now;
               }
-              animationRef.current = requestAnimationFrame(detectFrame);
             }
-          };
+            return;
+          }
+
+          if (!analysis) return;
+
+          if (showDebugRef.current) {
+            setExplanation(analysis.explanation);
+          }
 
-          detectFrame();
+          const gate = repeatGateRef.current;
+          if (analysis.bounce) gate.release();
+
+          const { result } = analysis;
+          setLastResult(result);
+          const stabilizer = stabilizerRef.current;
+          if (result && analysis.motion) {
+            // Each completed movement is a new sign, even the same one again
+            gate.release();
+            stabilizer.reset();
+            setHold(null);
+            commitGesture(result.gesture, result.confidence, result.candidates);
+            return;
+          }
+
+          // Static shapes are committed once they have been held steadily
+          const stable = stabilizer.vote(result, now);
+          updateHold(stabilizer.holdState(now));
+          if (stable) {
+            commitGesture(stable.gesture, stable.confidence, stable.candidates);
+          }
+        };
+
+        const startTracking = async () => {
+          const { tracking, modelComplexity, minDetectionConfidence, minTrackingConfidence } = settingsRef.current;
+          // Both solutions are served from our own build output (see
+          // plugins/mediapipe-assets.ts) under the tracking mode's name
+          const source = await bundledSource(tracking, `${tracking}.js`, modelComplexity);
+          return createDetector(
+            tracking,
+            source,
+            { modelComplexity, minDetectionConfidence, minTrackingConfidence },
+            classifierSpecRef.current,
+          );
+        };
+        const detector = replay ? createReplayDetector(replay, classifierSpecRef.current) : await startTracking();
+        // The camera may have been stopped while MediaPipe loaded
+        if (!isRunning()) {
+          detector.close();
+          return;
         }
-      } catch (mpError) {
-        console.warn('MediaPipe not available, using camera only mode:', mpError);
-        // Continue with just camera display
-        const drawVideoFrame = () => {
-          const canvas = canvasRef.current;
+        detectorRef.current = detector;
+        setDetectorThread(detector.runsIn);
+
+        // A replay stops shortly after its last frame
+        const replayEndsAt = replay ? Date.now() + sessionDuration(replay) + REPLAY_TAIL_MS : Infinity;
+
+        // Every scheduled frame is tracked and classified; the scheduler
+        // spaces them out to the target rate and the device's pace
+        const detectFrame = async () => {
           const video = videoRef.current;
-          if (!canvas || !video || !streamRef.current?.active) return;
+          const canvas = canvasRef.current;
+          if (detectorRef.current !== detector || !video || !canvas) return;
 
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-            ctx.save();
-            ctx.scale(-1, 1);
-            ctx.drawImage(video, -canvas.width, 0, canvas.width, canvas.height);
-            ctx.restore();
+          const now = Date.now();
+          if (now > replayEndsAt) {
+            stopDetectionRef.current();
+            toast({ title: "Replay finished" });
+            return;
           }
-          animationRef.current = requestAnimationFrame(drawVideoFrame);
+          const aspectRatio = canvas.width / canvas.height;
+          const { dominantHand, rejectionThreshold, smoothing, smoothingMinCutoff, smoothingBeta } = settingsRef.current;
+          const gate = repeatGateRef.current;
+          // Classification pauses while teaching a sign or calibrating
+          const classify = !recordingRef.current && !calibrationRef.current;
+          if (classify) setIsDetecting(true);
+
+          try {
+            const result = await detector.process(video, {
+              t: now,
+              aspectRatio,
+              smoothing: smoothing ? { minCutoff: smoothingMinCutoff, beta: smoothingBeta } : null,
+              analysis: classify
+                ? {
+                  dominantHand: dominantHand === "auto" ? undefined : dominantHand,
+                  aspectRatio,
+                  rejectionThreshold,
+                  thresholds: handProfileRef.current?.thresholds,
+                  explain: showDebugRef.current,
+                  bounceSince: gate.isReleased ? null : gate.lastEmittedAt,
+                }
+                : null,
+              keepRaw: sessionRecorderRef.current !== null,
+            });
+            if (detectorRef.current !== detector) return;
+            // A replayed frame keeps the shape it was recorded in
+            const frameAspectRatio = result.aspectRatio ?? aspectRatio;
+            const frameHeight = Math.round(canvas.width / frameAspectRatio);
+            if (replay && canvas.height !== frameHeight) canvas.height = frameHeight;
+            if (result.raw) sessionRecorderRef.current?.add(now, result.raw, frameAspectRatio);
+            overlay = result;
+            handleResult(result, now, frameAspectRatio);
+          } catch (e) {
+            if (detectorRef.current !== detector) return;
+            console.error('Detection frame error:', e);
+          }
+          if (classify) setIsDetecting(false);
         };
-        drawVideoFrame();
+
+        const scheduler = createFrameScheduler(detectFrame, {
+          targetFps: settingsRef.current.targetFps,
+          onStats: setFrameStats,
+        });
+        schedulerRef.current = scheduler;
+        scheduler.start();
+      } catch (mpError) {
+        console.warn('MediaPipe not available, using camera only mode:', mpError);
+        toast({
+          title: "Hand tracking unavailable",
+          description: mpError instanceof Error ? mpError.message : "MediaPipe could not be loaded.",
+          variant: "destructive",
+        });
       }
 
     } catch (err) {
@@ -547,7 +722,7 @@ export function SignDetection({ language, onDetection }: SignDetectionProps) {
         }
       }
     }
-  }, [drawHandLandmarks, processGesture]);
+  }, [commitGesture, drawHandLandmarks, endNumber, endWord, updateHold]);
 
   // Stop camera and detection
   const stopDetection = useCallback(() => {
@@ -562,19 +737,39 @@ export function SignDetection({ language, onDetection }: SignDetectionProps) {
     if (videoRef.current) {
       videoRef.current.srcObject = null;
     }
-    handsRef.current = null;
+    schedulerRef.current?.stop();
+    schedulerRef.current = null;
+    detectorRef.current?.close();
+    detectorRef.current = null;
+    setDetectorThread(null);
+    setFrameStats(null);
+    cancelRecording();
+    endCalibrationRef.current?.();
+    stopSessionRecording();
+    replayRef.current = null;
+    setReplayTracking(null);
+    endWord();
+    endNumber();
+    repeatGateRef.current.reset();
     setIsActive(false);
     setCurrentGesture("");
     setConfidence(0);
+    setLastResult(null);
     setHandDetected(false);
-    lastGestureRef.current = "";
-    gestureCountRef.current = 0;
-  }, []);
+    setDetectedHands([]);
+    stabilizerRef.current.reset();
+    setHold(null);
+  }, [cancelRecording, endNumber, endWord, stopSessionRecording]);
+  stopDetectionRef.current = stopDetection;
 
   // Clear detected text
   const clearText = () => {
+    resetSpelling();
+    resetNumber();
+    repeatGateRef.current.reset();
+    setLastSpelled(null);
     setDetectedText("");
-    onDetection?.("");
+    setGlosses([]);
   };
 
   // Cleanup on unmount
@@ -586,9 +781,56 @@ export function SignDetection({ language, onDetection }: SignDetectionProps) {
       if (streamRef.current) {
         streamRef.current.getTracks().forEach((track) => track.stop());
       }
+      if (recordingTimerRef.current) {
+        clearInterval(recordingTimerRef.current);
+      }
+      endCalibrationRef.current?.();
+      schedulerRef.current?.stop();
+      detectorRef.current?.close();
     };
   }, []);
 
+  useEffect(() => {
+    schedulerRef.current?.setTargetFps(settings.targetFps);
+  }, [settings.targetFps]);
+
+  useEffect(() => {
+    stabilizerRef.current.setHoldMs(settings.holdMs);
+  }, [settings.holdMs]);
+
+  // Apply tracking options to a running tracker; a different landmark model
+  // is verified before MediaPipe is pointed at it
+  useEffect(() => {
+    const detector = detectorRef.current;
+    if (!detector || detector.runsIn === "replay") return;
+    const options = {
+      modelComplexity: settings.modelComplexity,
+      minDetectionConfidence: settings.minDetectionConfidence,
+      minTrackingConfidence: settings.minTrackingConfidence,
+    };
+    let cancelled = false;
+    bundledSource(settings.tracking, `${settings.tracking}.js`, options.modelComplexity)
+      .then((source) => {
+        if (!cancelled && detectorRef.current === detector) detector.setOptions(options, source);
+      })
+      .catch((err) => {
+        console.warn("Failed to load the landmark model:", err);
+        toast({
+          title: "Landmark model unavailable",
+          description: err instanceof Error ? err.message : "The model could not be loaded.",
+          variant: "destructive",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [settings.tracking, settings.modelComplexity, settings.minDetectionConfidence, settings.minTrackingConfidence]);
+
+  // Keep a running detector's classifier in step with the model, pack and custom signs
+  useEffect(() => {
+    detectorRef.current?.configure(classifierSpec);
+  }, [classifierSpec]);
+
   return (
     <article className="feature-card" aria-labelledby="sign-detection-heading">
       <div className="flex items-start justify-between mb-4">
@@ -601,7 +843,7 @@ export function SignDetection({ language, onDetection }: SignDetectionProps) {
               Live Sign Language Detection
             </h2>
             <p className="text-sm text-muted-foreground">
-              Show signs to the camera to convert to text
+              Show {pack.name} signs to the camera to convert to text
             </p>
           </div>
         </div>
@@ -672,36 +914,100 @@ export function SignDetection({ language, onDetection }: SignDetectionProps) {
                 <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-destructive-foreground opacity-75" />
                 <span className="relative inline-flex h-2 w-2 rounded-full bg-destructive-foreground" />
               </span>
-              LIVE
+              {isReplaying ? "REPLAY" : "LIVE"}
             </div>
             
             {handDetected && (
               <div className="absolute bottom-3 left-3 px-3 py-1.5 rounded-full bg-success/90 text-success-foreground text-xs font-semibold">
-                ✋ Hand Detected
+                {detectedHands.length > 1
+                  ? `🙌 ${detectedHands.join(" + ")} Hands Detected`
+                  : `✋ ${detectedHands[0] ? `${detectedHands[0]} Hand` : "Hand"} Detected`}
+              </div>
+            )}
+
+            {/* Detection performance */}
+            {frameStats && (
+              <div className="absolute bottom-3 right-3 px-3 py-1.5 rounded-full bg-background/80 text-foreground text-xs font-mono tabular-nums">
+                {frameStats.paused
+                  ? "Paused"
+                  : `${frameStats.fps.toFixed(0)} fps · ${frameStats.latencyMs.toFixed(0)} ms`}
               </div>
             )}
             
-            {currentGesture && (
-              <div className="absolute top-3 right-3 px-4 py-2 rounded-lg bg-primary text-primary-foreground font-semibold text-lg animate-scale-in">
-                {currentGesture}
-                <span className="ml-2 text-xs opacity-75">
-                  {Math.round(confidence * 100)}%
-                </span>
+            {(currentGesture || lastResult) && (
+              <div className="absolute top-3 right-3 min-w-[9rem] px-4 py-2 rounded-lg bg-primary text-primary-foreground animate-scale-in">
+                {currentGesture && (
+                  <p className="font-semibold text-lg">
+                    {glossFor(pack, currentGesture)}
+                    <span className="ml-2 text-xs opacity-75">
+                      {Math.round(confidence * 100)}%
+                    </span>
+                  </p>
+                )}
+                {hold?.gesture && (
+                  <HoldProgressRing
+                    className="my-1"
+                    progress={hold.progress}
+                    confirmed={hold.confirmed}
+                    label={glossFor(pack, hold.gesture)}
+                  />
+                )}
+                {/* Top candidates for the latest frame */}
+                {lastResult && (
+                  <div className={cn("text-xs", currentGesture && "mt-1 pt-1 border-t border-primary-foreground/30")}>
+                    {isUnknown(lastResult) && <p className="font-semibold">Unsure</p>}
+                    <ol aria-label="Top candidates">
+                      {lastResult.candidates.slice(0, 3).map((candidate, i) => (
+                        <li key={candidate.gesture} className="flex justify-between gap-3 opacity-90">
+                          <span>{i + 1}. {glossFor(pack, candidate.gesture)}</span>
+                          <span>{Math.round(candidate.confidence * 100)}%</span>
+                        </li>
+                      ))}
+                    </ol>
+                    {lastResult.candidates.length > 1 && (
+                      <p className="opacity-75">Margin {Math.round(lastResult.margin * 100)}%</p>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </>
         )}
       </div>
 
+      {/* Word being fingerspelled or number being signed, committed after a pause or when the hand leaves the frame */}
+      {(spelling.word || numberEntry.word) && (
+        <div className="mt-4 p-4 rounded-xl border border-dashed border-primary/40">
+          <p className="text-xs font-medium text-muted-foreground mb-1">
+            {spelling.word ? "Spelling:" : "Number:"}
+          </p>
+          <p className="text-2xl font-semibold tracking-widest text-foreground" aria-live="polite">
+            {spelling.word || formatNumber(numberEntry.word, language)}
+            <span className="animate-pulse text-primary" aria-hidden="true">|</span>
+          </p>
+        </div>
+      )}
+
       {/* Detected text output */}
-      {detectedText && (
+      {glosses.length > 0 && (
         <div className="mt-4 p-4 rounded-xl bg-primary/5 border border-primary/20">
           <div className="flex items-start justify-between gap-4">
-            <div className="flex-1">
-              <p className="text-xs font-medium text-muted-foreground mb-1">Detected Signs:</p>
-              <p className="text-lg font-medium text-foreground" aria-live="polite">
-                {detectedText}
-              </p>
+            <div className="flex-1 grid gap-4 sm:grid-cols-2">
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-1">Detected Signs:</p>
+                <p className="text-lg font-medium text-foreground font-mono">
+                  {glosses.map((gloss) => glossFor(pack, gloss)).join(" ")}
+                </p>
+              </div>
+              <div>
+                <p className="flex items-center gap-1 text-xs font-medium text-muted-foreground mb-1">
+                  Sentence:
+                  {isSmoothing && <Loader2 className="h-3 w-3 animate-spin" aria-label="Updating sentence" />}
+                </p>
+                <p className="text-lg font-medium text-foreground" aria-live="polite">
+                  {outputText}
+                </p>
+              </div>
             </div>
             <Button variant="ghost" size="sm" onClick={clearText} aria-label="Clear detected text">
               Clear
@@ -710,12 +1016,25 @@ export function SignDetection({ language, onDetection }: SignDetectionProps) {
         </div>
       )}
 
+      {settings.fingerspelling && (
+        <SpellingSuggestions
+          spelledWord={spelledWord}
+          suggestions={suggestions}
+          isKnownWord={isKnownWord}
+          userWords={userWords}
+          language={language}
+          onPick={applySuggestion}
+          onAddWord={addWord}
+          onRemoveWord={removeWord}
+        />
+      )}
+
       {/* Controls */}
       <div className="mt-4 flex justify-center gap-3">
         <Button
           variant={isActive ? "destructive" : "default"}
           size="lg"
-          onClick={isActive ? stopDetection : startDetection}
+          onClick={isActive ? stopDetection : () => startDetection()}
           disabled={isLoading}
           className="min-w-[200px]"
           aria-label={isActive ? "Stop detection" : "Start detection"}
@@ -738,12 +1057,133 @@ export function SignDetection({ language, onDetection }: SignDetectionProps) {
             </>
           )}
         </Button>
+        <RecognitionSettingsSheet settings={settings} updateSettings={updateSettings} />
+      </div>
+
+      <LandmarkSessionControls
+        isActive={isActive}
+        isReplaying={isReplaying}
+        isRecording={isRecordingSession}
+        onStartRecording={startSessionRecording}
+        onStopRecording={stopSessionRecording}
+        onReplay={startDetection}
+      />
+
+      {/* Dominant hand preference */}
+      <div className="mt-4 flex items-center justify-center gap-3">
+        <span id="dominant-hand-label" className="text-sm font-medium text-muted-foreground">
+          Dominant hand:
+        </span>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={settings.dominantHand}
+          onValueChange={(value) => value && updateSettings({ dominantHand: value as DominantHand })}
+          aria-labelledby="dominant-hand-label"
+        >
+          <ToggleGroupItem value="auto" aria-label="Detect hand automatically">Auto</ToggleGroupItem>
+          <ToggleGroupItem value="Left" aria-label="Left-handed signing">Left</ToggleGroupItem>
+          <ToggleGroupItem value="Right" aria-label="Right-handed signing">Right</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {/* Tracking mode, applied when the camera starts */}
+      <div className="mt-3 flex flex-col items-center gap-1">
+        <div className="flex items-center justify-center gap-3">
+          <span id="tracking-label" className="text-sm font-medium text-muted-foreground">
+            Tracking:
+          </span>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={replayTracking ?? settings.tracking}
+            onValueChange={(value) => value && updateSettings({ tracking: value as TrackingMode })}
+            disabled={isActive}
+            aria-labelledby="tracking-label"
+          >
+            <ToggleGroupItem value="hands" aria-label="Track hands only">Hands</ToggleGroupItem>
+            <ToggleGroupItem value="holistic" aria-label="Track hands, face and body">Hands + body</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {isActive
+            ? `Stop the camera to change tracking.${detectorThread === "main" ? " Running on the main thread; this browser cannot track hands in the background." : ""}`
+            : settings.tracking === "holistic"
+              ? "Recognizes signs made at the face or chest, such as Mother and Father. Slower on older devices."
+              : "Signs made at the face or chest need Hands + body."}
+        </p>
+      </div>
+
+      <ClassifierControls
+        classifier={settings.classifier}
+        onClassifierChange={(classifier) => updateSettings({ classifier })}
+        packName={pack.shortName}
+        hasModel={hasModel}
+        hasUserModel={hasUserModel}
+        isModelLoading={isModelLoading}
+        modelError={modelError}
+        onLoadModel={loadModel}
+        onRemoveModel={removeModel}
+      />
+
+      <div className="mt-3 flex items-center justify-center gap-2">
+        <Switch
+          id="fingerspelling"
+          checked={settings.fingerspelling}
+          onCheckedChange={(fingerspelling) => updateSettings({ fingerspelling })}
+        />
+        <Label htmlFor="fingerspelling" className="text-sm text-muted-foreground">
+          Fingerspell words
+        </Label>
       </div>
 
+      <div className="mt-3 flex items-center justify-center gap-2">
+        <Switch
+          id="number-mode"
+          checked={settings.numberMode}
+          onCheckedChange={(numberMode) => updateSettings({ numberMode })}
+        />
+        <Label htmlFor="number-mode" className="text-sm text-muted-foreground">
+          Number mode
+        </Label>
+      </div>
+
+      <div className="mt-3 flex items-center justify-center gap-2">
+        <Switch id="gesture-debug" checked={showDebug} onCheckedChange={setShowDebug} />
+        <Label htmlFor="gesture-debug" className="text-sm text-muted-foreground">
+          Show matched definitions
+        </Label>
+      </div>
+
+      {showDebug && <GestureDebugPanel explanation={explanation} definitions={pack.definitions} />}
+
+      <HandProfilesPanel
+        canCalibrate={isActive}
+        captureProgress={captureProgress}
+        onCapture={captureCalibration}
+        activeProfileId={handProfile?.id ?? null}
+        onSelect={(handProfileId) => updateSettings({ handProfileId })}
+      />
+
+      <CustomSignsPanel
+        canRecord={isActive}
+        recordingProgress={recordingProgress}
+        onRecord={startRecording}
+      />
+
       {/* Instructions */}
       <div className="mt-4 p-3 rounded-lg bg-muted/50">
         <p className="text-xs text-muted-foreground text-center">
-          <strong>Supported signs:</strong> Numbers (1-5), Hello (open palm), Yes (thumbs up), No (fist), I Love You, Thank You
+          <strong>{pack.shortName} handshapes:</strong> {vocabulary.handshapes.join(", ")}.
+          {vocabulary.moving.length > 0 && <>{" "}<strong>Moving:</strong> {vocabulary.moving.join(", ")}.</>}
+          {vocabulary.twoHanded.length > 0 && <>{" "}<strong>Two-handed:</strong> {vocabulary.twoHanded.join(", ")}.</>}
+          {vocabulary.missingLetters.length > 0 && (
+            <>{" "}<strong>Letters not recognized yet:</strong> {vocabulary.missingLetters.join(", ")}.</>
+          )}
+          {" "}Add your own with "Teach a sign".
+          {" "}To repeat a sign, drop your hand briefly, bounce it sideways or teach a sign named "{REPEAT_SIGN}".
         </p>
       </div>
     </article>
@@ -0,0 +1,54 @@
+import { Hand } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LATIN_ALPHABET, packVocabulary, SIGN_LANGUAGE_PACKS } from "@shared/gesture";
+
+interface SignLanguageSelectorProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Packs that cannot fingerspell every letter say how many they cover
+const letterCoverage = Object.fromEntries(
+  SIGN_LANGUAGE_PACKS.map((pack) => {
+    const missing = packVocabulary(pack).missingLetters.length;
+    const total = LATIN_ALPHABET.length;
+    return [pack.id, missing > 0 ? `${total - missing} of ${total} letters` : null];
+  }),
+);
+
+export function SignLanguageSelector({ value, onChange }: SignLanguageSelectorProps) {
+  return (
+    <div className="flex items-center gap-3">
+      <Hand className="h-5 w-5 text-primary" aria-hidden="true" />
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger
+          className="w-[120px] sm:w-[220px] h-12 rounded-xl border-2 border-border bg-card text-base font-medium focus:ring-2 focus:ring-primary"
+          aria-label="Select sign language"
+        >
+          <SelectValue placeholder="Select sign language" />
+        </SelectTrigger>
+        <SelectContent className="rounded-xl border-2">
+          {SIGN_LANGUAGE_PACKS.map((pack) => (
+            <SelectItem
+              key={pack.id}
+              value={pack.id}
+              className="text-base py-3 cursor-pointer focus:bg-primary/10"
+            >
+              <span className="sm:hidden">{pack.shortName}</span>
+              <span className="hidden sm:inline">{pack.name}</span>
+              {letterCoverage[pack.id] && (
+                <span className="block text-xs text-muted-foreground">{letterCoverage[pack.id]}</span>
+              )}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
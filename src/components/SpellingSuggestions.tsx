@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { BookPlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { UserWord } from "@/hooks/use-lexicon";
+import { displayWord, spellsTransliteration, toSpelling, type LexiconEntry } from "@/lib/lexicon";
+import type { SpellingSuggestion } from "@/lib/spelling";
+
+interface SpellingSuggestionsProps {
+  // Word being spelled, or the last spelled word while it can still be replaced
+  spelledWord: string;
+  suggestions: SpellingSuggestion[];
+  // The spelled word is already in the lexicon
+  isKnownWord: boolean;
+  userWords: UserWord[];
+  // Output language, for upper-casing suggestions like the spelled letters
+  language: string;
+  onPick: (entry: LexiconEntry) => void;
+  // The word is given separately when the language spells a transliteration
+  onAddWord: (spelling: string, word?: string) => void;
+  onRemoveWord: (word: UserWord) => void;
+}
+
+// Tappable corrections and completions for fingerspelled input
+export function SpellingSuggestions({
+  spelledWord,
+  suggestions,
+  isKnownWord,
+  userWords,
+  language,
+  onPick,
+  onAddWord,
+  onRemoveWord,
+}: SpellingSuggestionsProps) {
+  const options = suggestions.filter(({ entry }) => displayWord(entry, language) !== spelledWord);
+  // How the spelled word is written, for languages in another script
+  const [written, setWritten] = useState("");
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2" aria-label="Spelling suggestions">
+      {spelledWord && options.length > 0 && (
+        <>
+          <span className="text-xs font-medium text-muted-foreground">Did you mean:</span>
+          {options.map(({ entry, completion }) => (
+            <Button
+              key={entry.word}
+              variant="secondary"
+              size="sm"
+              onClick={() => onPick(entry)}
+              aria-label={`${completion ? "Complete" : "Correct"} to ${entry.word}`}
+            >
+              {displayWord(entry, language)}
+            </Button>
+          ))}
+        </>
+      )}
+      {spelledWord && !isKnownWord && (spellsTransliteration(language) ? (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onAddWord(spelledWord, written);
+            setWritten("");
+          }}
+        >
+          <Input
+            value={written}
+            onChange={(e) => setWritten(e.target.value)}
+            placeholder={`${spelledWord} as written`}
+            aria-label={`How ${spelledWord} is written`}
+            lang={language}
+            className="h-9 w-40"
+          />
+          <Button type="submit" variant="ghost" size="sm" disabled={!written.trim()}>
+            <BookPlus className="h-4 w-4" aria-hidden="true" />
+            Add "{spelledWord}" to dictionary
+          </Button>
+        </form>
+      ) : (
+        <Button variant="ghost" size="sm" onClick={() => onAddWord(spelledWord)}>
+          <BookPlus className="h-4 w-4" aria-hidden="true" />
+          Add "{spelledWord}" to dictionary
+        </Button>
+      ))}
+      {userWords.length > 0 && (
+        <details className="w-full text-xs text-muted-foreground">
+          <summary className="cursor-pointer">Your words ({userWords.length})</summary>
+          <ul className="mt-2 flex flex-wrap gap-2">
+            {userWords.map((entry) => (
+              <li key={`${entry.spelling}-${entry.word}`} className="flex items-center gap-1 rounded-md bg-muted px-2 py-1">
+                {entry.word}
+                {entry.spelling !== toSpelling(entry.word) && ` (${entry.spelling})`}
+                <button
+                  type="button"
+                  onClick={() => onRemoveWord(entry)}
+                  className="rounded hover:text-destructive focus:outline-none focus:ring-2 focus:ring-primary"
+                  aria-label={`Remove ${entry.word} from dictionary`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
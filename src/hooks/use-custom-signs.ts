@@ -0,0 +1,55 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { KnnSample } from "@shared/gesture";
+import {
+  createCustomSign,
+  deleteCustomSign,
+  listCustomSigns,
+  saveCustomSign,
+  type CustomSign,
+} from "@/lib/custom-signs";
+
+const QUERY_KEY = ["custom-signs"];
+
+// Custom signs from IndexedDB, with their samples flattened for the classifier
+export function useCustomSigns() {
+  const queryClient = useQueryClient();
+  const { data: signs = [], error } = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: listCustomSigns,
+    staleTime: Infinity,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+
+  const addSign = useMutation({
+    mutationFn: ({ label, samples }: { label: string; samples: number[][] }) =>
+      saveCustomSign(createCustomSign(label, samples)),
+    onSuccess: invalidate,
+  });
+
+  const renameSign = useMutation({
+    mutationFn: ({ sign, label }: { sign: CustomSign; label: string }) =>
+      saveCustomSign({ ...sign, label, updatedAt: Date.now() }),
+    onSuccess: invalidate,
+  });
+
+  const removeSign = useMutation({
+    mutationFn: (id: string) => deleteCustomSign(id),
+    onSuccess: invalidate,
+  });
+
+  const samples = useMemo<KnnSample[]>(
+    () => signs.flatMap((sign) => sign.samples.map((features) => ({ label: sign.label, features }))),
+    [signs],
+  );
+
+  return {
+    signs,
+    samples,
+    loadError: error instanceof Error ? error.message : null,
+    addSign: addSign.mutateAsync,
+    renameSign: renameSign.mutateAsync,
+    removeSign: removeSign.mutateAsync,
+  };
+}
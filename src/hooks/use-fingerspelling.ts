@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { GestureCandidate } from "@shared/gesture";
+import type { SpelledLetter } from "@/lib/spelling";
+
+// How long the signer may pause before the word being spelled is committed
+export const SPELLING_PAUSE_MS = 1500;
+
+export const isLetter = (gesture: string) => /^[A-Z]$/.test(gesture);
+
+// Collects fingerspelled letters into a word. The word is committed after a
+// pause, or explicitly, e.g. when the hand leaves the frame.
+// Number mode uses it the same way to compose digits into a number.
+export function useFingerspelling(
+  onCommit: (word: string, letters: SpelledLetter[]) => void,
+  pauseMs = SPELLING_PAUSE_MS,
+) {
+  // Each letter keeps the classifier's candidates, for spelling correction
+  const [letters, setLetters] = useState<SpelledLetter[]>([]);
+  const lettersRef = useRef<SpelledLetter[]>([]);
+  const timerRef = useRef<number | null>(null);
+  const onCommitRef = useRef(onCommit);
+  onCommitRef.current = onCommit;
+
+  const clearTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  const commit = useCallback(() => {
+    clearTimer();
+    const committed = lettersRef.current;
+    lettersRef.current = [];
+    setLetters([]);
+    if (committed.length > 0) {
+      onCommitRef.current(committed.map(({ letter }) => letter).join(""), committed);
+    }
+  }, [clearTimer]);
+
+  const addLetter = useCallback((letter: string, candidates: GestureCandidate[] = []) => {
+    lettersRef.current = [...lettersRef.current, { letter, candidates }];
+    setLetters(lettersRef.current);
+    clearTimer();
+    timerRef.current = window.setTimeout(commit, pauseMs);
+  }, [clearTimer, commit, pauseMs]);
+
+  // Commit the word now, e.g. when another sign ends it
+  const endWord = commit;
+
+  // Drop the word without committing it
+  const reset = useCallback(() => {
+    clearTimer();
+    lettersRef.current = [];
+    setLetters([]);
+  }, [clearTimer]);
+
+  useEffect(() => clearTimer, [clearTimer]);
+
+  const word = letters.map(({ letter }) => letter).join("");
+
+  return { word, letters, addLetter, endWord, reset };
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { parseGestureModel, type GestureModel, type SignLanguagePack } from "@shared/gesture";
+
+export type ClassifierKind = "learned" | "rules";
+
+// Models the user loaded, by sign-language pack id
+type UserModels = Record<string, GestureModel>;
+
+const STORAGE_KEY = "signspeak.gesture-models";
+
+function loadUserModels(): UserModels {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return {};
+    const models: UserModels = {};
+    for (const [packId, json] of Object.entries(JSON.parse(stored) as Record<string, unknown>)) {
+      try {
+        models[packId] = parseGestureModel(json);
+      } catch (err) {
+        console.warn(`Ignoring stored gesture model for ${packId}:`, err);
+      }
+    }
+    return models;
+  } catch (err) {
+    console.warn("Failed to load gesture models:", err);
+    return {};
+  }
+}
+
+async function fetchGestureModel(modelUrl: string): Promise<GestureModel> {
+  const response = await fetch(modelUrl);
+  // The dev server and SPA hosting answer unknown paths with index.html
+  const isJson = response.headers.get("content-type")?.includes("json") ?? false;
+  if (!response.ok || !isJson) {
+    throw new Error(`No gesture model available (${response.ok ? "not JSON" : response.status})`);
+  }
+  return parseGestureModel(await response.json());
+}
+
+// The learned model for a sign-language pack, or null when the pack's rules
+// should be used: while the model loads, when it is missing or invalid, when
+// there is no model and when rules are chosen explicitly. A model the user
+// loaded for the pack takes the place of the one the pack ships.
+export function useGestureModel(kind: ClassifierKind, pack: SignLanguagePack) {
+  const [userModels, setUserModels] = useState<UserModels>(loadUserModels);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(userModels));
+    } catch (err) {
+      console.warn("Failed to save gesture models:", err);
+    }
+  }, [userModels]);
+
+  const userModel = userModels[pack.id] ?? null;
+  const useShipped = kind === "learned" && !userModel && !!pack.modelUrl;
+  const { data: shippedModel, error, isLoading } = useQuery({
+    queryKey: ["gesture-model", pack.modelUrl],
+    queryFn: () => fetchGestureModel(pack.modelUrl ?? ""),
+    enabled: useShipped,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  // Validate a model file, e.g. one trained on the signer's own recordings,
+  // and use it for this pack from now on
+  const loadModel = useCallback(async (file: File) => {
+    const loaded = parseGestureModel(JSON.parse(await file.text()));
+    setUserModels((prev) => ({ ...prev, [pack.id]: loaded }));
+  }, [pack.id]);
+
+  const removeModel = useCallback(() => {
+    setUserModels(({ [pack.id]: _removed, ...rest }) => rest);
+  }, [pack.id]);
+
+  const learnedModel = userModel ?? (useShipped ? shippedModel ?? null : null);
+
+  return {
+    model: kind === "learned" ? learnedModel : null,
+    // Whether there is a learned model to choose at all
+    hasModel: !!userModel || !!pack.modelUrl,
+    hasUserModel: !!userModel,
+    isModelLoading: useShipped && isLoading,
+    modelError: useShipped && error instanceof Error ? error.message : null,
+    loadModel,
+    removeModel,
+  };
+}
@@ -0,0 +1,29 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+async function fetchSentence(glosses: string[], targetLanguage: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke("gloss-to-sentence", {
+    body: { glosses, targetLanguage },
+  });
+  if (error) throw error;
+  return data?.sentence ?? "";
+}
+
+// Fluent sentence in the output language for the signed glosses. The last
+// sentence stays visible while the next one is requested.
+export function useGlossSentence(glosses: string[], language: string) {
+  const { data, isFetching, error } = useQuery({
+    queryKey: ["gloss-sentence", language, glosses],
+    queryFn: () => fetchSentence(glosses, language),
+    enabled: glosses.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  return {
+    sentence: glosses.length > 0 ? data ?? null : null,
+    isSmoothing: isFetching,
+    smoothingError: error instanceof Error ? error.message : null,
+  };
+}
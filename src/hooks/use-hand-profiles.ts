@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { HandCalibration } from "@shared/gesture";
+import {
+  createHandProfile,
+  deleteHandProfile,
+  listHandProfiles,
+  saveHandProfile,
+  type HandProfile,
+} from "@/lib/hand-profiles";
+
+const QUERY_KEY = ["hand-profiles"];
+
+// Calibrated hand profiles from local storage
+export function useHandProfiles() {
+  const queryClient = useQueryClient();
+  const { data: profiles = [] } = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: listHandProfiles,
+    staleTime: Infinity,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+
+  const addProfile = useMutation({
+    mutationFn: async ({ name, calibration }: { name: string; calibration: HandCalibration }) => {
+      const profile = createHandProfile(name, calibration);
+      saveHandProfile(profile);
+      return profile;
+    },
+    onSuccess: invalidate,
+  });
+
+  // Re-running calibration keeps the profile's name and id
+  const recalibrateProfile = useMutation({
+    mutationFn: async ({ profile, calibration }: { profile: HandProfile; calibration: HandCalibration }) =>
+      saveHandProfile({ ...profile, ...calibration, updatedAt: Date.now() }),
+    onSuccess: invalidate,
+  });
+
+  const removeProfile = useMutation({
+    mutationFn: async (id: string) => deleteHandProfile(id),
+    onSuccess: invalidate,
+  });
+
+  return {
+    profiles,
+    addProfile: addProfile.mutateAsync,
+    recalibrateProfile: recalibrateProfile.mutateAsync,
+    removeProfile: removeProfile.mutateAsync,
+  };
+}
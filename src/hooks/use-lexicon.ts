@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { builtInLexicon, toSpelling, type LexiconEntry } from "@/lib/lexicon";
+
+// A word the user added, with the letters that spell it
+export type UserWord = Pick<LexiconEntry, "spelling" | "word">;
+
+// User-added words per output language
+type UserWords = Record<string, UserWord[]>;
+
+const STORAGE_KEY = "signspeak.user-words";
+
+function loadUserWords(): UserWords {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed: Record<string, Array<UserWord | string>> = JSON.parse(stored);
+      // Words saved before spellings were stored are spelled as written
+      return Object.fromEntries(Object.entries(parsed).map(([language, words]) => [
+        language,
+        words.map((word) => (typeof word === "string" ? { spelling: toSpelling(word), word } : word)),
+      ]));
+    }
+  } catch (err) {
+    console.warn("Failed to load user words:", err);
+  }
+  return {};
+}
+
+// Lexicon for the output language: the user's words, then the built-in ones
+export function useLexicon(language: string) {
+  const [userWords, setUserWords] = useState<UserWords>(loadUserWords);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(userWords));
+    } catch (err) {
+      console.warn("Failed to save user words:", err);
+    }
+  }, [userWords]);
+
+  const words = useMemo(() => userWords[language] ?? [], [userWords, language]);
+
+  const lexicon = useMemo<LexiconEntry[]>(
+    () => [
+      ...words.map((word) => ({ ...word, custom: true })),
+      ...builtInLexicon(language),
+    ],
+    [words, language],
+  );
+
+  // Add a word spelled with these letters. Words in another script, like
+  // Hindi or Tamil, are given separately and spelled by their transliteration.
+  const addWord = useCallback((spelled: string, written = spelled) => {
+    const spelling = toSpelling(spelled);
+    const word = written.trim();
+    if (!spelling || !word) return;
+    setUserWords((prev) => {
+      const current = prev[language] ?? [];
+      const exists = current.some((entry) => entry.spelling === spelling && entry.word === word);
+      return exists ? prev : { ...prev, [language]: [...current, { spelling, word }] };
+    });
+  }, [language]);
+
+  const removeWord = useCallback(({ spelling, word }: UserWord) => {
+    setUserWords((prev) => ({
+      ...prev,
+      [language]: (prev[language] ?? []).filter((entry) => entry.spelling !== spelling || entry.word !== word),
+    }));
+  }, [language]);
+
+  return { lexicon, userWords: words, addWord, removeWord };
+}
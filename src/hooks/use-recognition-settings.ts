@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useState } from "react";
+import { DEFAULT_REJECTION_THRESHOLD, DEFAULT_SMOOTHING, type Handedness } from "@shared/gesture";
+import type { ClassifierKind } from "@/hooks/use-gesture-model";
+import { DEFAULT_TARGET_FPS } from "@/lib/frame-scheduler";
+import { DEFAULT_TRACKER_OPTIONS, type TrackerOptions } from "@/lib/hand-tracking";
+import { DEFAULT_HOLD_MS } from "@/lib/sign-stabilizer";
+
+export type DominantHand = "auto" | Handedness;
+
+// Hands only, or hands with face and pose landmarks for location-dependent signs
+export type TrackingMode = "hands" | "holistic";
+
+export interface RecognitionSettings {
+  // "auto" trusts MediaPipe's handedness; Left/Right forces the signer's hand
+  dominantHand: DominantHand;
+  // Applied the next time the camera starts
+  tracking: TrackingMode;
+  // MediaPipe landmark model, applied live
+  modelComplexity: TrackerOptions["modelComplexity"];
+  // MediaPipe palm detection and landmark tracking confidences
+  minDetectionConfidence: number;
+  minTrackingConfidence: number;
+  // Hand-written rules, or a learned model the user loaded or the pack ships
+  classifier: ClassifierKind;
+  // Frames whose best candidate scores below this are shown as unknown
+  rejectionThreshold: number;
+  // Collect fingerspelled letters into words instead of separate tokens
+  fingerspelling: boolean;
+  // Read number handshapes as digits and compose consecutive digits into one number
+  numberMode: boolean;
+  // Frames tracked and classified per second; slow devices get fewer
+  targetFps: number;
+  // How long a static sign must be held before it is committed
+  holdMs: number;
+  // One Euro filtering of landmarks before classification and drawing
+  smoothing: boolean;
+  // Cutoff at rest in Hz, and how fast it rises with hand speed
+  smoothingMinCutoff: number;
+  smoothingBeta: number;
+  // Calibrated hand profile whose thresholds the recognizer uses, or null for the defaults
+  handProfileId: string | null;
+}
+
+const STORAGE_KEY = "signspeak.recognition-settings";
+
+export const defaultRecognitionSettings: RecognitionSettings = {
+  dominantHand: "auto",
+  tracking: "hands",
+  modelComplexity: DEFAULT_TRACKER_OPTIONS.modelComplexity,
+  minDetectionConfidence: DEFAULT_TRACKER_OPTIONS.minDetectionConfidence,
+  minTrackingConfidence: DEFAULT_TRACKER_OPTIONS.minTrackingConfidence,
+  classifier: "rules",
+  rejectionThreshold: DEFAULT_REJECTION_THRESHOLD,
+  fingerspelling: false,
+  numberMode: false,
+  targetFps: DEFAULT_TARGET_FPS,
+  holdMs: DEFAULT_HOLD_MS,
+  smoothing: true,
+  smoothingMinCutoff: DEFAULT_SMOOTHING.minCutoff,
+  smoothingBeta: DEFAULT_SMOOTHING.beta,
+  handProfileId: null,
+};
+
+export type RecognitionPreset = "accurate" | "balanced" | "battery";
+
+type PresetValues = Pick<
+  RecognitionSettings,
+  "modelComplexity" | "minDetectionConfidence" | "minTrackingConfidence" | "targetFps" | "holdMs"
+>;
+
+// Tracking and stabilizer tuning for common hardware; other settings are left alone
+export const RECOGNITION_PRESETS: Record<RecognitionPreset, { label: string; description: string; values: PresetValues }> = {
+  accurate: {
+    label: "Accurate",
+    description: "Full landmark model at a high rate. Best on fast desktops.",
+    values: { modelComplexity: 1, minDetectionConfidence: 0.7, minTrackingConfidence: 0.7, targetFps: 30, holdMs: 700 },
+  },
+  balanced: {
+    label: "Balanced",
+    description: "The defaults. Works well on most laptops.",
+    values: {
+      modelComplexity: defaultRecognitionSettings.modelComplexity,
+      minDetectionConfidence: defaultRecognitionSettings.minDetectionConfidence,
+      minTrackingConfidence: defaultRecognitionSettings.minTrackingConfidence,
+      targetFps: defaultRecognitionSettings.targetFps,
+      holdMs: defaultRecognitionSettings.holdMs,
+    },
+  },
+  battery: {
+    label: "Battery saver",
+    description: "Fewer frames, and hands are re-detected less often.",
+    values: { modelComplexity: 0, minDetectionConfidence: 0.5, minTrackingConfidence: 0.3, targetFps: 8, holdMs: 600 },
+  },
+};
+
+// The preset the settings currently match, or null once any value was tuned by hand
+export function matchingPreset(settings: RecognitionSettings): RecognitionPreset | null {
+  const presets = Object.entries(RECOGNITION_PRESETS) as [RecognitionPreset, { values: PresetValues }][];
+  const match = presets.find(([, { values }]) =>
+    (Object.keys(values) as (keyof PresetValues)[]).every((key) => settings[key] === values[key]),
+  );
+  return match?.[0] ?? null;
+}
+
+function loadSettings(): RecognitionSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...defaultRecognitionSettings, ...JSON.parse(stored) };
+    }
+  } catch (err) {
+    console.warn("Failed to load recognition settings:", err);
+  }
+  return defaultRecognitionSettings;
+}
+
+export function useRecognitionSettings() {
+  const [settings, setSettings] = useState<RecognitionSettings>(loadSettings);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (err) {
+      console.warn("Failed to save recognition settings:", err);
+    }
+  }, [settings]);
+
+  const updateSettings = useCallback((patch: Partial<RecognitionSettings>) => {
+    setSettings((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_SIGN_LANGUAGE, SIGN_LANGUAGE_PACKS } from "@shared/gesture";
+
+const STORAGE_KEY = "signspeak.sign-language";
+
+function loadSignLanguage(): string {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    // A pack that no longer ships falls back to the default
+    if (stored && SIGN_LANGUAGE_PACKS.some((pack) => pack.id === stored)) return stored;
+  } catch (err) {
+    console.warn("Failed to load sign language:", err);
+  }
+  return DEFAULT_SIGN_LANGUAGE;
+}
+
+// Id of the sign-language pack to recognize, remembered across visits
+export function useSignLanguage() {
+  const [signLanguage, setSignLanguage] = useState(loadSignLanguage);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, signLanguage);
+    } catch (err) {
+      console.warn("Failed to save sign language:", err);
+    }
+  }, [signLanguage]);
+
+  return { signLanguage, setSignLanguage };
+}
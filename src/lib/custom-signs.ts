@@ -0,0 +1,80 @@
+// User-taught signs, stored locally in IndexedDB
+export interface CustomSign {
+  id: string;
+  label: string;
+  // Feature vectors from handFeatureVector, one per captured frame
+  samples: number[][];
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DB_NAME = "signspeak";
+const DB_VERSION = 1;
+const STORE = "custom-signs";
+
+export const CUSTOM_SIGNS_EXPORT_FORMAT = "signspeak-custom-signs";
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!("indexedDB" in window)) {
+      reject(new Error("IndexedDB is not supported in your browser."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run one request in its own transaction and close the connection afterwards
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function listCustomSigns(): Promise<CustomSign[]> {
+  const signs = await withStore<CustomSign[]>("readonly", (store) => store.getAll());
+  return signs.sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export async function saveCustomSign(sign: CustomSign): Promise<void> {
+  await withStore("readwrite", (store) => store.put(sign));
+}
+
+export async function deleteCustomSign(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+export function createCustomSign(label: string, samples: number[][]): CustomSign {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), label, samples, createdAt: now, updatedAt: now };
+}
+
+// Download every custom sign as a JSON file
+export function exportCustomSigns(signs: CustomSign[]) {
+  const json = JSON.stringify({ format: CUSTOM_SIGNS_EXPORT_FORMAT, version: 1, signs }, null, 2);
+  const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "signspeak-custom-signs.json";
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,151 @@
+import type { TrackingMode } from "@/hooks/use-recognition-settings";
+import { createFrameAnalyzer, type ClassifierSpec } from "@/lib/frame-analysis";
+import { createReplayTracker, type LandmarkSession } from "@/lib/landmark-session";
+import {
+  createHandTracker,
+  type SolutionSource,
+  type TrackerOptions,
+} from "@/lib/hand-tracking";
+import {
+  processFrame,
+  type DetectorRequest,
+  type DetectorResponse,
+  type FrameRequest,
+  type FrameResult,
+} from "@/workers/detection-protocol";
+
+// Loading MediaPipe in the worker includes compiling its WASM, which is slow
+// on low-end machines
+const WORKER_START_TIMEOUT_MS = 20000;
+
+export interface Detector {
+  // Where tracking and classification run; a replay has no tracker at all
+  runsIn: "worker" | "main" | "replay";
+  process(video: HTMLVideoElement, request: FrameRequest): Promise<FrameResult>;
+  configure(spec: ClassifierSpec): void;
+  // Applies from the next frame; a different landmark model must be among the
+  // source's files
+  setOptions(options: TrackerOptions, source: SolutionSource): void;
+  close(): void;
+}
+
+async function createWorkerDetector(
+  tracking: TrackingMode,
+  source: SolutionSource,
+  options: TrackerOptions,
+  spec: ClassifierSpec,
+): Promise<Detector> {
+  const worker = new Worker(new URL("../workers/detection.worker.ts", import.meta.url), { type: "module" });
+  const post = (message: DetectorRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error("Detection worker did not start in time")), WORKER_START_TIMEOUT_MS);
+      worker.onmessage = ({ data }: MessageEvent<DetectorResponse>) => {
+        clearTimeout(timer);
+        if (data.type === "ready") resolve();
+        else reject(new Error(data.type === "error" ? data.message : "Unexpected message from detection worker"));
+      };
+      worker.onerror = (event) => {
+        clearTimeout(timer);
+        reject(new Error(event.message || "Detection worker failed to load"));
+      };
+      post({ type: "init", tracking, source, options, spec });
+    });
+  } catch (err) {
+    worker.terminate();
+    throw err;
+  }
+
+  const pending = new Map<number, { resolve: (result: FrameResult) => void; reject: (err: Error) => void }>();
+  let nextId = 0;
+
+  const rejectAll = (err: Error) => {
+    pending.forEach(({ reject }) => reject(err));
+    pending.clear();
+  };
+
+  worker.onmessage = ({ data }: MessageEvent<DetectorResponse>) => {
+    if (data.type === "ready" || data.id === undefined) return;
+    const request = pending.get(data.id);
+    if (!request) return;
+    pending.delete(data.id);
+    if (data.type === "result") request.resolve(data.result);
+    else request.reject(new Error(data.message));
+  };
+  worker.onerror = (event) => rejectAll(new Error(event.message || "Detection worker failed"));
+
+  return {
+    runsIn: "worker",
+    async process(video, request) {
+      const image = await createImageBitmap(video);
+      const id = nextId++;
+      return new Promise<FrameResult>((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        post({ type: "frame", id, image, request }, [image]);
+      });
+    },
+    configure(next) {
+      post({ type: "configure", spec: next });
+    },
+    setOptions(options, source) {
+      post({ type: "options", options, source });
+    },
+    close() {
+      worker.terminate();
+      rejectAll(new Error("Detector closed"));
+    },
+  };
+}
+
+async function createMainThreadDetector(
+  tracking: TrackingMode,
+  source: SolutionSource,
+  options: TrackerOptions,
+  spec: ClassifierSpec,
+): Promise<Detector> {
+  const tracker = await createHandTracker(tracking, source, options);
+  const analyzer = createFrameAnalyzer(spec);
+  return {
+    runsIn: "main",
+    process: (video, request) => processFrame(tracker, analyzer, video, request),
+    configure: (next) => analyzer.configure(next),
+    setOptions: (options, source) => tracker.setOptions(options, source),
+    close() {
+      tracker.close().catch((err) => console.warn("Failed to close MediaPipe:", err));
+    },
+  };
+}
+
+// Plays a recorded session through the same smoothing and classification
+// as a live one; the camera image passed to process is ignored
+export function createReplayDetector(session: LandmarkSession, spec: ClassifierSpec): Detector {
+  const tracker = createReplayTracker(session);
+  const analyzer = createFrameAnalyzer(spec);
+  return {
+    runsIn: "replay",
+    process: (video, request) => processFrame(tracker, analyzer, video, request),
+    configure: (next) => analyzer.configure(next),
+    setOptions: () => {},
+    close() {},
+  };
+}
+
+// Hand tracking and classification in a worker, so inference never blocks
+// rendering. Browsers without OffscreenCanvas in workers, or where MediaPipe
+// fails to start in one, run the same pipeline on the main thread.
+export async function createDetector(
+  tracking: TrackingMode,
+  source: SolutionSource,
+  options: TrackerOptions,
+  spec: ClassifierSpec,
+): Promise<Detector> {
+  if (typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined") {
+    try {
+      return await createWorkerDetector(tracking, source, options, spec);
+    } catch (err) {
+      console.warn("Detection worker unavailable, running on the main thread:", err);
+    }
+  }
+  return createMainThreadDetector(tracking, source, options, spec);
+}
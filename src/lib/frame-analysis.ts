@@ -0,0 +1,119 @@
+import {
+  appendFrame,
+  combineClassifiers,
+  createLearnedClassifier,
+  createRuleClassifier,
+  createLandmarkSmoother,
+  createSampleClassifier,
+  detectBounce,
+  dominantHandOf,
+  explainGesture,
+  getSignLanguagePack,
+  matchMotion,
+  type DefinitionMatch,
+  type FeatureThresholds,
+  type GestureClassifier,
+  type GestureModel,
+  type GestureResult,
+  type Handedness,
+  type KnnSample,
+  type OneEuroParams,
+  type SignLanguagePack,
+  type TrajectoryFrame,
+} from "@shared/gesture";
+import type { TrackedFrame } from "@/lib/hand-tracking";
+
+// Everything needed to rebuild the active classifier, as plain data so it
+// can be sent to a worker
+export interface ClassifierSpec {
+  signLanguage: string;
+  // Learned model, or null for the pack's hand-written rules
+  model: GestureModel | null;
+  // Custom sign samples recognized alongside the built-in signs
+  samples: KnnSample[];
+}
+
+export function buildClassifier(spec: ClassifierSpec, pack: SignLanguagePack): GestureClassifier {
+  const base = spec.model ? createLearnedClassifier(spec.model, pack) : createRuleClassifier(pack);
+  return spec.samples.length > 0 ? combineClassifiers([base, createSampleClassifier(spec.samples)]) : base;
+}
+
+export interface AnalysisOptions {
+  dominantHand?: Handedness;
+  aspectRatio: number;
+  rejectionThreshold: number;
+  // Personal handshape thresholds from the signer's hand profile
+  thresholds?: Partial<FeatureThresholds>;
+  // Explain the dominant hand against every definition, for the debug panel
+  explain: boolean;
+  // When the last sign was emitted, while the repeat gate is still closed;
+  // a sideways bounce since then releases it
+  bounceSince: number | null;
+}
+
+export interface FrameAnalysis {
+  // Motion match, or the classifier's result for the current shape
+  result: GestureResult | null;
+  // Whether the result is a completed movement
+  motion: boolean;
+  bounce: boolean;
+  explanation: DefinitionMatch[] | null;
+}
+
+export interface FrameAnalyzer {
+  configure(spec: ClassifierSpec): void;
+  // Every tracked frame feeds the trajectory buffer used for motion signs.
+  // Landmarks are smoothed first unless `smoothing` is null; the frame that
+  // was buffered is returned so the overlay draws the same points.
+  addFrame(t: number, frame: TrackedFrame, smoothing: OneEuroParams | null): TrackedFrame;
+  analyze(options: AnalysisOptions): FrameAnalysis;
+}
+
+// Trajectory buffer and classification for one camera session
+export function createFrameAnalyzer(spec: ClassifierSpec): FrameAnalyzer {
+  let pack = getSignLanguagePack(spec.signLanguage);
+  let classifier = buildClassifier(spec, pack);
+  let trajectory: TrajectoryFrame[] = [];
+  const smoother = createLandmarkSmoother();
+
+  return {
+    configure(next) {
+      pack = getSignLanguagePack(next.signLanguage);
+      classifier = buildClassifier(next, pack);
+    },
+
+    addFrame(t, frame, smoothing) {
+      const hands = smoothing ? smoother.smooth(frame.hands, t, smoothing) : frame.hands;
+      if (!smoothing) smoother.reset();
+      // Dropping the hand ends any movement in progress
+      trajectory = hands.length > 0 ? appendFrame(trajectory, { t, hands, body: frame.body }) : [];
+      return { ...frame, hands };
+    },
+
+    analyze({ explain, bounceSince, ...options }) {
+      const latest = trajectory[trajectory.length - 1];
+      if (!latest) return { result: null, motion: false, bounce: false, explanation: null };
+      const frameOptions = { ...options, body: latest.body };
+
+      let explanation: DefinitionMatch[] | null = null;
+      if (explain) {
+        const hand = dominantHandOf(latest.hands, options.dominantHand);
+        explanation = hand
+          ? explainGesture(hand.landmarks, { ...frameOptions, handedness: hand.handedness }, pack.definitions)
+          : null;
+      }
+
+      // Sliding the hand sideways doubles the letter being held
+      const bounce = bounceSince !== null && detectBounce(trajectory, { ...frameOptions, since: bounceSince });
+
+      // A completed movement wins over the static shape it ends in
+      const motion = matchMotion(trajectory, frameOptions, pack.motions);
+      if (motion) {
+        trajectory = [];
+        return { result: motion, motion: true, bounce, explanation };
+      }
+
+      return { result: classifier.classify(latest.hands, frameOptions), motion: false, bounce, explanation };
+    },
+  };
+}
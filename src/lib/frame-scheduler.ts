@@ -0,0 +1,123 @@
+// Frames are counted over this window for the FPS figure
+const STATS_WINDOW_MS = 1000;
+// How often stats are reported, so the UI doesn't re-render every frame
+const STATS_INTERVAL_MS = 500;
+// Weight of the newest frame in the smoothed latency
+const LATENCY_SMOOTHING = 0.2;
+// Slow frames stretch the interval to this multiple of their latency, leaving
+// the main thread and GPU some slack; it shrinks back by RECOVERY per frame
+const BACKOFF = 1.25;
+const RECOVERY = 0.9;
+// Detection never slows below one frame a second
+const MAX_INTERVAL_MS = 1000;
+
+export const DEFAULT_TARGET_FPS = 15;
+
+export interface FrameStats {
+  // Frames processed over the last second
+  fps: number;
+  // Smoothed time to process one frame, in milliseconds
+  latencyMs: number;
+  // Time between frame starts after backoff, in milliseconds
+  intervalMs: number;
+  // The tab is hidden, so no frames are processed
+  paused: boolean;
+}
+
+export interface FrameScheduler {
+  start(): void;
+  stop(): void;
+  setTargetFps(fps: number): void;
+}
+
+interface FrameSchedulerOptions {
+  targetFps: number;
+  onStats?: (stats: FrameStats) => void;
+}
+
+// Runs one frame at a time at a target rate. Frames that take longer than
+// their budget push the next ones further apart until they fit again, and
+// nothing runs while the tab is hidden.
+export function createFrameScheduler(
+  runFrame: () => Promise<void>,
+  { targetFps, onStats }: FrameSchedulerOptions,
+): FrameScheduler {
+  let budget = 1000 / targetFps;
+  let interval = budget;
+  let latency = 0;
+  let running = false;
+  let inFlight = false;
+  let timer: number | null = null;
+  let lastReport = 0;
+  const completed: number[] = [];
+
+  const report = (now: number) => {
+    while (completed.length > 0 && completed[0] < now - STATS_WINDOW_MS) completed.shift();
+    lastReport = now;
+    onStats?.({
+      fps: (completed.length * 1000) / STATS_WINDOW_MS,
+      latencyMs: latency,
+      intervalMs: interval,
+      paused: document.hidden,
+    });
+  };
+
+  const schedule = (delay: number) => {
+    timer = window.setTimeout(tick, delay);
+  };
+
+  const tick = async () => {
+    timer = null;
+    if (!running || document.hidden) return;
+
+    inFlight = true;
+    const startedAt = performance.now();
+    try {
+      await runFrame();
+    } catch (err) {
+      console.error("Scheduled frame failed:", err);
+    }
+    inFlight = false;
+
+    const now = performance.now();
+    const took = now - startedAt;
+    latency = latency === 0 ? took : latency + (took - latency) * LATENCY_SMOOTHING;
+    interval = latency > budget
+      ? Math.min(MAX_INTERVAL_MS, latency * BACKOFF)
+      : Math.max(budget, interval * RECOVERY);
+    completed.push(now);
+    if (now - lastReport >= STATS_INTERVAL_MS) report(now);
+
+    if (running && !document.hidden) schedule(Math.max(0, interval - took));
+  };
+
+  const onVisibilityChange = () => {
+    if (!running) return;
+    if (document.hidden) {
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+    } else if (timer === null && !inFlight) {
+      schedule(0);
+    }
+    report(performance.now());
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      document.addEventListener("visibilitychange", onVisibilityChange);
+      schedule(0);
+    },
+    stop() {
+      running = false;
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+    },
+    setTargetFps(fps) {
+      budget = 1000 / fps;
+      if (latency <= budget) interval = budget;
+    },
+  };
+}
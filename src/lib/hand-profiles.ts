@@ -0,0 +1,44 @@
+import type { HandCalibration } from "@shared/gesture";
+
+// Calibrated hands, stored locally so several signers can share a device
+export interface HandProfile extends HandCalibration {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const STORAGE_KEY = "signspeak.hand-profiles";
+
+export function listHandProfiles(): HandProfile[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const profiles: HandProfile[] = stored ? JSON.parse(stored) : [];
+    // Profiles saved by earlier versions also carry proportions and ranges
+    // that nothing reads; they are dropped on the next save
+    return profiles
+      .map(({ id, name, thresholds, createdAt, updatedAt }) => ({ id, name, thresholds, createdAt, updatedAt }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (err) {
+    console.warn("Failed to load hand profiles:", err);
+    return [];
+  }
+}
+
+function storeHandProfiles(profiles: HandProfile[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+// Add a profile, or replace the one with the same id
+export function saveHandProfile(profile: HandProfile) {
+  storeHandProfiles([...listHandProfiles().filter((p) => p.id !== profile.id), profile]);
+}
+
+export function deleteHandProfile(id: string) {
+  storeHandProfiles(listHandProfiles().filter((p) => p.id !== id));
+}
+
+export function createHandProfile(name: string, calibration: HandCalibration): HandProfile {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), name, ...calibration, createdAt: now, updatedAt: now };
+}
@@ -0,0 +1,218 @@
+import { bodyReference, fromMediaPipeLabel, type BodyReference, type HandInput } from "@shared/gesture";
+import type { TrackingMode } from "@/hooks/use-recognition-settings";
+import type {
+  HandsConstructor,
+  HandsResults,
+  HolisticConstructor,
+  HolisticResults,
+  NormalizedLandmark,
+} from "@/types/mediapipe.d";
+
+// Where a MediaPipe solution's files come from. Plain data, so it can be
+// handed to a worker.
+export interface SolutionSource {
+  scriptUrl: string;
+  // SRI digest of the script, when known
+  integrity?: string;
+  // Object URLs of verified runtime files, by file name; others are refused
+  files: Record<string, string>;
+}
+
+// Hands and body seen in one camera frame
+export interface TrackedFrame {
+  hands: HandInput[];
+  body?: BodyReference;
+  // Shape of the image the frame was tracked in when it is not the camera's,
+  // as for a replayed frame
+  aspectRatio?: number;
+}
+
+export type TrackerImage = HTMLVideoElement | ImageBitmap;
+
+export interface TrackingConfidence {
+  // Min palm detection score before a hand is tracked at all
+  minDetectionConfidence: number;
+  // Min landmark score to keep tracking; below it the palm is detected again
+  minTrackingConfidence: number;
+}
+
+export interface TrackerOptions extends TrackingConfidence {
+  // 0 is the lite landmark model, 1 the full one
+  modelComplexity: 0 | 1;
+}
+
+export const DEFAULT_TRACKER_OPTIONS: TrackerOptions = {
+  modelComplexity: 0,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+};
+
+export interface HandTracker {
+  track(image: TrackerImage, aspectRatio: number): Promise<TrackedFrame>;
+  // Applies from the next frame. A different landmark model is loaded then,
+  // so it must be among the source's files.
+  setOptions(options: TrackerOptions, source: SolutionSource): void;
+  close(): Promise<void>;
+}
+
+interface MediaPipeGlobals {
+  Hands?: HandsConstructor;
+  Holistic?: HolisticConstructor;
+  // Module settings picked up by the solution's packed assets loader
+  createMediapipeSolutionsPackedAssets?: { locateFile: (file: string) => string };
+  importScripts?: (...urls: string[]) => void;
+}
+
+const mediapipe = globalThis as unknown as MediaPipeGlobals;
+
+const inWorker = typeof document === "undefined";
+
+const toLandmarks = (points: NormalizedLandmark[]) => points.map((lm) => [lm.x, lm.y, lm.z || 0]);
+
+function locateIn(files: () => SolutionSource["files"]) {
+  return (file: string) => {
+    const url = files()[file];
+    if (!url) throw new Error(`MediaPipe requested unverified file ${file}`);
+    return url;
+  };
+}
+
+// Run a script in the worker's global scope, as importScripts would
+function evaluateScript(code: string) {
+  (0, eval)(code);
+}
+
+// Module workers have no importScripts, which MediaPipe uses to load its WASM
+// glue; fetch the scripts synchronously instead
+function installImportScripts() {
+  mediapipe.importScripts = (...urls: string[]) => {
+    for (const url of urls) {
+      const request = new XMLHttpRequest();
+      request.open("GET", url, false);
+      request.send();
+      if (request.status !== 200) throw new Error(`Failed to load ${url}`);
+      evaluateScript(request.responseText);
+    }
+  };
+}
+
+// Load a MediaPipe script build once, checked against its SRI digest when given
+function loadMediaPipeScript(source: SolutionSource, isLoaded: () => boolean): Promise<void> {
+  if (isLoaded()) return Promise.resolve();
+
+  if (inWorker) {
+    installImportScripts();
+    return fetch(source.scriptUrl, { integrity: source.integrity })
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.text();
+      })
+      .then(evaluateScript)
+      .catch((err) => {
+        console.error(`Failed to load ${source.scriptUrl}:`, err);
+        throw new Error("Failed to load MediaPipe");
+      });
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = source.scriptUrl;
+    script.crossOrigin = "anonymous";
+    if (source.integrity) script.integrity = source.integrity;
+    script.onload = () => {
+      // Wait a bit for the script to fully initialize
+      setTimeout(resolve, 500);
+    };
+    script.onerror = () => reject(new Error("Failed to load MediaPipe"));
+    document.head.appendChild(script);
+  });
+}
+
+// A MediaPipe Hands or Holistic tracker. Works on the main thread and in a
+// worker; MediaPipe renders into its own OffscreenCanvas in the latter.
+export async function createHandTracker(
+  tracking: TrackingMode,
+  source: SolutionSource,
+  { modelComplexity, ...confidence }: TrackerOptions = DEFAULT_TRACKER_OPTIONS,
+): Promise<HandTracker> {
+  let files = source.files;
+  const locateFile = locateIn(() => files);
+  // In a worker the solution skips its own locateFile for the packed assets
+  mediapipe.createMediapipeSolutionsPackedAssets = { locateFile };
+
+  let latest: TrackedFrame = { hands: [] };
+  let aspectRatio = 1;
+
+  if (tracking === "holistic") {
+    // Face and pose landmarks add where the hands are relative to the body
+    await loadMediaPipeScript(source, () => !!mediapipe.Holistic);
+    const HolisticClass = mediapipe.Holistic;
+    if (!HolisticClass) throw new Error("Failed to load MediaPipe");
+    const holistic = new HolisticClass({ locateFile });
+
+    holistic.setOptions({ modelComplexity, smoothLandmarks: true, ...confidence });
+    await holistic.initialize();
+
+    holistic.onResults((results: HolisticResults) => {
+      // Holistic already labels hands from the signer's point of view
+      const hands: HandInput[] = [];
+      if (results.rightHandLandmarks) {
+        hands.push({ landmarks: toLandmarks(results.rightHandLandmarks), handedness: "Right" });
+      }
+      if (results.leftHandLandmarks) {
+        hands.push({ landmarks: toLandmarks(results.leftHandLandmarks), handedness: "Left" });
+      }
+      const body = bodyReference(
+        results.faceLandmarks && toLandmarks(results.faceLandmarks),
+        results.poseLandmarks && toLandmarks(results.poseLandmarks),
+        aspectRatio,
+      );
+      latest = { hands, body };
+    });
+
+    return {
+      async track(image, ratio) {
+        aspectRatio = ratio;
+        latest = { hands: [] };
+        await holistic.send({ image });
+        return latest;
+      },
+      setOptions(next, nextSource) {
+        files = { ...files, ...nextSource.files };
+        holistic.setOptions(next);
+      },
+      close: () => holistic.close(),
+    };
+  }
+
+  await loadMediaPipeScript(source, () => !!mediapipe.Hands);
+  const HandsClass = mediapipe.Hands;
+  if (!HandsClass) throw new Error("Failed to load MediaPipe");
+  const hands = new HandsClass({ locateFile });
+
+  hands.setOptions({ maxNumHands: 2, modelComplexity, ...confidence });
+  await hands.initialize();
+
+  hands.onResults((results: HandsResults) => {
+    // Frames are sent unmirrored, so MediaPipe's labels must be swapped
+    latest = {
+      hands: (results.multiHandLandmarks ?? []).map((landmarks, i) => ({
+        landmarks: toLandmarks(landmarks),
+        handedness: fromMediaPipeLabel(results.multiHandedness?.[i]?.label, false),
+      })),
+    };
+  });
+
+  return {
+    async track(image) {
+      latest = { hands: [] };
+      await hands.send({ image });
+      return latest;
+    },
+    setOptions(next, nextSource) {
+      files = { ...files, ...nextSource.files };
+      hands.setOptions(next);
+    },
+    close: () => hands.close(),
+  };
+}
@@ -0,0 +1,138 @@
+import type { TrackingMode } from "@/hooks/use-recognition-settings";
+import type { BodyReference, HandInput } from "@shared/gesture";
+import type { HandTracker, TrackedFrame } from "@/lib/hand-tracking";
+
+// What the hand tracker emitted during a camera session, as portable JSON:
+//
+//   { "format": "signspeak-landmark-session", "version": 1,
+//     "tracking": "hands", "recordedAt": "2024-01-01T12:00:00.000Z",
+//     "frames": [{ "t": 0, "aspectRatio": 1.333,
+//                  "hands": [{ "handedness": "Right", "landmarks": [[x, y, z], ... 21 points] }],
+//                  "body": { "forehead": [x, y, z], ... } }, ...] }
+//
+// `t` is milliseconds since the first frame. Landmarks are the tracker's raw
+// output, before smoothing, so a replay goes through the same filtering and
+// classification as the live session did.
+
+export const LANDMARK_SESSION_FORMAT = "signspeak-landmark-session";
+export const LANDMARK_SESSION_VERSION = 1;
+
+const TRACKING_MODES: TrackingMode[] = ["hands", "holistic"];
+
+const isPoint = (value: unknown) =>
+  Array.isArray(value) && value.length >= 2 && value.every((n) => typeof n === "number" && Number.isFinite(n));
+
+const isHand = (value: unknown) => {
+  const hand = value as HandInput | null;
+  return Array.isArray(hand?.landmarks) && hand.landmarks.length === 21 && hand.landmarks.every(isPoint) &&
+    (hand.handedness === undefined || hand.handedness === "Left" || hand.handedness === "Right");
+};
+
+// Body points are optional, but those present must be points
+const isBody = (value: unknown) =>
+  value === undefined ||
+  (typeof value === "object" && value !== null &&
+    Object.values(value as BodyReference).every((point) => point === undefined || isPoint(point)));
+
+export interface SessionFrame extends TrackedFrame {
+  t: number;
+  aspectRatio: number;
+}
+
+export interface LandmarkSession {
+  format: typeof LANDMARK_SESSION_FORMAT;
+  version: number;
+  tracking: TrackingMode;
+  recordedAt: string;
+  frames: SessionFrame[];
+}
+
+export interface SessionRecorder {
+  add(t: number, frame: TrackedFrame, aspectRatio: number): void;
+  readonly frameCount: number;
+  finish(): LandmarkSession;
+}
+
+export function createSessionRecorder(tracking: TrackingMode): SessionRecorder {
+  const recordedAt = new Date().toISOString();
+  const frames: SessionFrame[] = [];
+  let startedAt: number | null = null;
+
+  return {
+    add(t, { hands, body }, aspectRatio) {
+      startedAt ??= t;
+      frames.push({ t: t - startedAt, aspectRatio, hands, ...(body && { body }) });
+    },
+    get frameCount() {
+      return frames.length;
+    },
+    finish: () => ({ format: LANDMARK_SESSION_FORMAT, version: LANDMARK_SESSION_VERSION, tracking, recordedAt, frames }),
+  };
+}
+
+export function parseLandmarkSession(json: unknown): LandmarkSession {
+  const session = json as LandmarkSession | null;
+  if (!session || session.format !== LANDMARK_SESSION_FORMAT) {
+    throw new Error("Not a landmark session file");
+  }
+  if (session.version !== LANDMARK_SESSION_VERSION) {
+    throw new Error(`Unsupported landmark session version: ${session.version}`);
+  }
+  if (!TRACKING_MODES.includes(session.tracking)) {
+    throw new Error(`Unsupported landmark session tracking: ${session.tracking}`);
+  }
+  const valid = Array.isArray(session.frames) && session.frames.every((frame) =>
+    Number.isFinite(frame?.t) &&
+    Number.isFinite(frame.aspectRatio) && frame.aspectRatio > 0 &&
+    Array.isArray(frame.hands) &&
+    frame.hands.every(isHand) &&
+    isBody(frame.body)
+  );
+  if (!valid) throw new Error("Landmark session contains an invalid frame");
+  if (session.frames.length === 0) throw new Error("Landmark session has no frames");
+  // Only holistic tracking sees the body, so a hands session with body points
+  // does not match the mode it claims
+  if (session.tracking === "hands" && session.frames.some((frame) => frame.body)) {
+    throw new Error("Landmark session has body points but was recorded with hand tracking");
+  }
+  return { ...session, frames: [...session.frames].sort((a, b) => a.t - b.t) };
+}
+
+// Download a session as a JSON file
+export function downloadLandmarkSession(session: LandmarkSession) {
+  const json = JSON.stringify(session);
+  const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `signspeak-session-${session.recordedAt.replace(/[:.]/g, "-")}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export const sessionDuration = (session: LandmarkSession) => session.frames[session.frames.length - 1].t;
+
+// Stands in for MediaPipe: each call returns the frame the recording had
+// reached at that point in real time, counted from the first call, so
+// playback runs at the recorded speed whatever the detection rate
+export function createReplayTracker(session: LandmarkSession, clock = () => performance.now()): HandTracker {
+  let startedAt: number | null = null;
+  let next = 0;
+  let current: TrackedFrame = { hands: [] };
+
+  return {
+    async track() {
+      const now = clock();
+      startedAt ??= now;
+      const elapsed = now - startedAt;
+      while (next < session.frames.length && session.frames[next].t <= elapsed) {
+        const { hands, body, aspectRatio } = session.frames[next++];
+        current = { hands, body, aspectRatio };
+      }
+      return current;
+    },
+    setOptions() {
+      // Recorded frames were already tracked
+    },
+    async close() {},
+  };
+}
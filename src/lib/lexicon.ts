@@ -0,0 +1,78 @@
+// Words fingerspelled input is corrected against, per output language.
+// Fingerspelling only produces the letters A-Z, so every entry has a Latin
+// spelling and the word it stands for in the output language.
+export interface LexiconEntry {
+  // Letters as they are fingerspelled
+  spelling: string;
+  // Word inserted into the text
+  word: string;
+  // Added by the user rather than built in
+  custom?: boolean;
+}
+
+// Uppercase A-Z only, with accents removed
+export const toSpelling = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toUpperCase().replace(/[^A-Z]/g, "");
+
+// Upper-cased like fingerspelled letters; scripts without case are unchanged
+export const displayWord = (entry: LexiconEntry, language: string) => entry.word.toLocaleUpperCase(language);
+
+const spelledAsIs = (list: string) =>
+  list.split(/\s+/).filter(Boolean).map((word) => ({ spelling: toSpelling(word), word }));
+
+const transliterated = (pairs: Array<[string, string]>) =>
+  pairs.map(([spelling, word]) => ({ spelling: toSpelling(spelling), word }));
+
+// Most frequent first; the order is used as the prior between candidates
+const ENGLISH = spelledAsIs(`
+  i you the a to and is it yes no what my me your we not do that this can
+  have are be for in of on with at go want need help please thank thanks hello
+  hi bye good bad name how where when why who which there here now today
+  tomorrow yesterday time day night morning home school work water food eat
+  drink more again finish stop wait come like love sorry okay fine sick pain
+  doctor hospital family mother father mom dad sister brother friend baby
+  child people man woman boy girl sign language deaf hearing learn understand
+  know think feel happy sad tired hungry thirsty hot cold big small new old
+  right left open close book phone car bus bathroom toilet money buy pay
+  store house room bed sleep play walk run sit stand give take make see look
+  watch listen talk say tell ask answer call write read live
+  city country week month year hour minute afternoon evening
+  birthday party game music movie teacher student class test question
+  problem easy hard fast slow early late always never sometimes maybe
+  because but or if then also very much many some all any other same
+`);
+
+const HINDI = transliterated([
+  ["namaste", "नमस्ते"], ["dhanyavad", "धन्यवाद"], ["shukriya", "शुक्रिया"], ["haan", "हाँ"],
+  ["nahin", "नहीं"], ["main", "मैं"], ["aap", "आप"], ["tum", "तुम"], ["kya", "क्या"],
+  ["kaise", "कैसे"], ["kahan", "कहाँ"], ["kab", "कब"], ["kyon", "क्यों"], ["theek", "ठीक"],
+  ["accha", "अच्छा"], ["bura", "बुरा"], ["naam", "नाम"], ["pani", "पानी"], ["khana", "खाना"],
+  ["ghar", "घर"], ["maa", "माँ"], ["pita", "पिता"], ["dost", "दोस्त"], ["madad", "मदद"],
+  ["aaj", "आज"], ["kal", "कल"], ["din", "दिन"], ["raat", "रात"], ["subah", "सुबह"],
+  ["school", "स्कूल"], ["doctor", "डॉक्टर"], ["dard", "दर्द"], ["bhookh", "भूख"], ["pyaar", "प्यार"],
+]);
+
+const TAMIL = transliterated([
+  ["vanakkam", "வணக்கம்"], ["nandri", "நன்றி"], ["aam", "ஆம்"], ["illai", "இல்லை"],
+  ["naan", "நான்"], ["nee", "நீ"], ["neengal", "நீங்கள்"], ["enna", "என்ன"], ["eppadi", "எப்படி"],
+  ["enge", "எங்கே"], ["eppothu", "எப்போது"], ["en", "ஏன்"], ["nalla", "நல்ல"], ["peyar", "பெயர்"],
+  ["thanneer", "தண்ணீர்"], ["saappadu", "சாப்பாடு"], ["veedu", "வீடு"], ["amma", "அம்மா"],
+  ["appa", "அப்பா"], ["nanban", "நண்பன்"], ["udhavi", "உதவி"], ["indru", "இன்று"],
+  ["naalai", "நாளை"], ["naal", "நாள்"], ["iravu", "இரவு"], ["kaalai", "காலை"], ["palli", "பள்ளி"],
+  ["maruthuvar", "மருத்துவர்"], ["vali", "வலி"], ["pasi", "பசி"], ["anbu", "அன்பு"],
+]);
+
+const LEXICONS: Record<string, LexiconEntry[]> = {
+  en: ENGLISH,
+  hi: HINDI,
+  ta: TAMIL,
+};
+
+// Output languages written in another script, whose words are fingerspelled
+// as a Latin transliteration
+const TRANSLITERATED_LANGUAGES = new Set(["hi", "ta"]);
+
+export const spellsTransliteration = (language: string) => TRANSLITERATED_LANGUAGES.has(language);
+
+// Built-in words for an output language, English when it has none
+export const builtInLexicon = (language: string): LexiconEntry[] => LEXICONS[language] ?? LEXICONS.en;
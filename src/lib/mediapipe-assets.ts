@@ -0,0 +1,93 @@
+import { solutions } from "virtual:mediapipe-assets";
+import type { SolutionSource, TrackerOptions } from "@/lib/hand-tracking";
+
+export interface BundledSolution {
+  version: string;
+  baseUrl: string;
+  integrity: Record<string, string>;
+}
+
+// A MediaPipe solution served from our own build output
+export function bundledSolution(name: string): BundledSolution {
+  const solution = solutions[name];
+  if (!solution) throw new Error(`MediaPipe ${name} is not bundled with the app`);
+  return solution;
+}
+
+// Landmark model a solution loads for each model complexity
+const LANDMARK_MODELS: Record<string, Record<TrackerOptions["modelComplexity"], string>> = {
+  hands: { 0: "hand_landmark_lite.tflite", 1: "hand_landmark_full.tflite" },
+  holistic: { 0: "pose_landmark_lite.tflite", 1: "pose_landmark_full.tflite" },
+};
+
+// A tiny module using a SIMD instruction. MediaPipe instantiates the same
+// bytes to choose between its SIMD and plain WASM builds.
+const SIMD_TEST_MODULE = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0, 1, 4, 1, 96, 0, 0, 3, 2, 1, 0, 10, 9, 1, 7, 0, 65, 0, 253, 15, 26, 11]);
+
+let simdSupport: Promise<boolean> | null = null;
+
+function supportsWasmSimd(): Promise<boolean> {
+  simdSupport ??= WebAssembly.instantiate(SIMD_TEST_MODULE).then(() => true, () => false);
+  return simdSupport;
+}
+
+// The files a solution requests besides its main script: the packed assets,
+// the one WASM build this browser runs, the graph and the landmark model
+async function runtimeFiles(name: string, modelComplexity: TrackerOptions["modelComplexity"]): Promise<string[]> {
+  const wasm = `${name}_solution_${(await supportsWasmSimd()) ? "simd_" : ""}wasm_bin`;
+  return [
+    `${name}_solution_packed_assets_loader.js`,
+    `${name}_solution_packed_assets.data`,
+    `${wasm}.js`,
+    `${wasm}.wasm`,
+    `${name}.binarypb`,
+    LANDMARK_MODELS[name][modelComplexity],
+  ];
+}
+
+// Verified files are kept for the page's lifetime, so restarting the camera
+// does not download them again; object URLs also work inside workers
+const verifiedFiles = new Map<string, Promise<string>>();
+
+// Downloads one runtime file, letting the browser check it against its
+// build-time SHA-384 digest, and returns an object URL for the verified bytes
+function verifiedFile({ baseUrl, integrity }: BundledSolution, file: string): Promise<string> {
+  const url = `${baseUrl}${file}`;
+  const cached = verifiedFiles.get(url);
+  if (cached) return cached;
+
+  const verified = (async () => {
+    if (!(file in integrity)) throw new Error(`MediaPipe file ${file} is not bundled with the app`);
+    try {
+      const response = await fetch(url, { integrity: integrity[file] });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return URL.createObjectURL(await response.blob());
+    } catch (err) {
+      console.error(`Failed to load ${url}:`, err);
+      throw new Error(`MediaPipe file ${file} is missing or failed its integrity check`);
+    }
+  })();
+
+  // A failed download can be retried on the next start
+  verified.catch(() => verifiedFiles.delete(url));
+  verifiedFiles.set(url, verified);
+  return verified;
+}
+
+// Points MediaPipe at verified copies of exactly the files it will request
+// for these options; anything else it asks for is refused. The script
+// itself is loaded with SRI.
+export async function bundledSource(
+  name: string,
+  script: string,
+  modelComplexity: TrackerOptions["modelComplexity"],
+): Promise<SolutionSource> {
+  const solution = bundledSolution(name);
+  const files = await runtimeFiles(name, modelComplexity);
+  const urls = await Promise.all(files.map((file) => verifiedFile(solution, file)));
+  return {
+    scriptUrl: new URL(`${solution.baseUrl}${script}`, location.href).href,
+    integrity: solution.integrity[script],
+    files: Object.fromEntries(files.map((file, i) => [file, urls[i]])),
+  };
+}
@@ -0,0 +1,15 @@
+// Native digits for output languages that have them
+const NUMBERING_SYSTEMS: Record<string, string> = {
+  ta: "tamldec",
+  hi: "deva",
+};
+
+// Signed digits in the output language's script. Digits are converted one by
+// one so phone numbers keep their leading zeros and get no grouping.
+export function formatNumber(digits: string, language: string): string {
+  const formatter = new Intl.NumberFormat(language, {
+    numberingSystem: NUMBERING_SYSTEMS[language] ?? "latn",
+    useGrouping: false,
+  });
+  return digits.replace(/\d/g, (digit) => formatter.format(Number(digit)));
+}
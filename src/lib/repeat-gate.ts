@@ -0,0 +1,68 @@
+// A held sign keeps being recognized, so the same sign is only emitted again
+// after a release: the hand leaving the frame briefly, a small sideways
+// bounce, or the repeat sign
+
+// Label of the sign that repeats the last token; teach it with "Teach a sign"
+export const REPEAT_SIGN = "Repeat";
+
+// Tracking dropouts shorter than this do not count as releasing the hand
+export const MIN_RELEASE_MS = 250;
+
+export interface RepeatGate {
+  // Token to emit for a recognized sign, or null while it is still held
+  accept(sign: string, now: number): string | null;
+  // Allow the last sign to be emitted again
+  release(): void;
+  // Report whether a hand is in the frame, to notice the hand being dropped
+  trackHand(present: boolean, now: number): void;
+  // Forget the last sign
+  reset(): void;
+  // When the last token was emitted, to look for a bounce since then
+  readonly lastEmittedAt: number;
+  readonly isReleased: boolean;
+}
+
+export function createRepeatGate(minReleaseMs = MIN_RELEASE_MS): RepeatGate {
+  let lastSign: string | null = null;
+  let lastToken: string | null = null;
+  let lastEmittedAt = 0;
+  let released = false;
+  let lostAt: number | null = null;
+
+  return {
+    accept(sign, now) {
+      if (sign === lastSign && !released) return null;
+      const token = sign === REPEAT_SIGN ? lastToken : sign;
+      lastSign = sign;
+      released = false;
+      if (!token) return null;
+      lastToken = token;
+      lastEmittedAt = now;
+      return token;
+    },
+    release() {
+      released = true;
+    },
+    trackHand(present, now) {
+      if (!present) {
+        if (lostAt === null) lostAt = now;
+      } else if (lostAt !== null) {
+        if (now - lostAt >= minReleaseMs) released = true;
+        lostAt = null;
+      }
+    },
+    reset() {
+      lastSign = null;
+      lastToken = null;
+      lastEmittedAt = 0;
+      released = false;
+      lostAt = null;
+    },
+    get lastEmittedAt() {
+      return lastEmittedAt;
+    },
+    get isReleased() {
+      return released;
+    },
+  };
+}
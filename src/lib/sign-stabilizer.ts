@@ -0,0 +1,115 @@
+import { isUnknown, type GestureCandidate, type GestureResult } from "@shared/gesture";
+
+// Static signs are confirmed by confidence-weighted voting over a sliding
+// window, so one noisy frame doesn't restart the count. A sign becomes the
+// candidate once it holds ENTER_SHARE of the window's vote weight and stays
+// the candidate until it falls below EXIT_SHARE; it is confirmed once it has
+// been the candidate for the hold time, and again every hold time after
+// that while it leads, leaving the repeat gate to decide whether a held sign
+// is emitted.
+
+export const DEFAULT_HOLD_MS = 600;
+
+// Votes older than this no longer count
+export const VOTE_WINDOW_MS = 500;
+export const ENTER_SHARE = 0.6;
+export const EXIT_SHARE = 0.35;
+// Vote weight of a frame without a confident sign
+const UNSURE_WEIGHT = 0.5;
+
+export interface StableSign {
+  gesture: string;
+  // Average confidence of the sign's votes in the window
+  confidence: number;
+  // Ranked candidates from the sign's latest frame
+  candidates: GestureCandidate[];
+}
+
+export interface HoldState {
+  // Sign being held, or null while the vote is undecided
+  gesture: string | null;
+  // Share of the hold time completed, from 0 to 1
+  progress: number;
+  confirmed: boolean;
+}
+
+export interface SignStabilizer {
+  // Add one classified frame; returns the candidate when it is confirmed
+  vote(result: GestureResult | null, now: number): StableSign | null;
+  holdState(now: number): HoldState;
+  setHoldMs(holdMs: number): void;
+  // Forget every vote, e.g. when the hand leaves the frame
+  reset(): void;
+}
+
+interface Vote {
+  t: number;
+  result: GestureResult | null;
+  weight: number;
+}
+
+export function createSignStabilizer(initialHoldMs = DEFAULT_HOLD_MS): SignStabilizer {
+  let holdMs = initialHoldMs;
+  let votes: Vote[] = [];
+  let candidate: string | null = null;
+  let heldSince = 0;
+  let lastConfirmedAt: number | null = null;
+
+  const leader = (totals: Map<string, number>) =>
+    [...totals].reduce<[string, number] | null>((best, entry) => (!best || entry[1] > best[1] ? entry : best), null);
+
+  return {
+    vote(result, now) {
+      const sure = result && !isUnknown(result) ? result : null;
+      votes = votes.filter((vote) => vote.t > now - VOTE_WINDOW_MS);
+      votes.push({ t: now, result: sure, weight: sure ? sure.confidence : UNSURE_WEIGHT });
+
+      let total = 0;
+      const totals = new Map<string, number>();
+      for (const { result: voted, weight } of votes) {
+        total += weight;
+        if (voted) totals.set(voted.gesture, (totals.get(voted.gesture) ?? 0) + weight);
+      }
+
+      if (candidate !== null && (totals.get(candidate) ?? 0) / total < EXIT_SHARE) {
+        candidate = null;
+      }
+      if (candidate === null) {
+        const top = leader(totals);
+        if (!top || top[1] / total < ENTER_SHARE) return null;
+        candidate = top[0];
+        heldSince = now;
+        lastConfirmedAt = null;
+      }
+
+      // A fading candidate stays on screen but is only confirmed while it leads
+      if (now - (lastConfirmedAt ?? heldSince) < holdMs || leader(totals)?.[0] !== candidate) return null;
+      lastConfirmedAt = now;
+
+      const held = votes.filter((vote) => vote.result?.gesture === candidate);
+      return {
+        gesture: candidate,
+        confidence: held.reduce((sum, vote) => sum + vote.weight, 0) / held.length,
+        candidates: held[held.length - 1].result?.candidates ?? [],
+      };
+    },
+    holdState(now) {
+      if (candidate === null) return { gesture: null, progress: 0, confirmed: false };
+      const confirmed = lastConfirmedAt !== null;
+      return {
+        gesture: candidate,
+        progress: confirmed ? 1 : Math.min(1, (now - heldSince) / holdMs),
+        confirmed,
+      };
+    },
+    setHoldMs(next) {
+      holdMs = next;
+    },
+    reset() {
+      votes = [];
+      candidate = null;
+      heldSince = 0;
+      lastConfirmedAt = null;
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import type { GestureCandidate } from "@shared/gesture";
+import type { LexiconEntry } from "@/lib/lexicon";
+
+// One fingerspelled letter with the classifier's candidates for that frame
+export interface SpelledLetter {
+  letter: string;
+  candidates: GestureCandidate[];
+}
+
+export interface SpellingSuggestion {
+  entry: LexiconEntry;
+  // Lower is more likely
+  cost: number;
+  // The entry is longer than what has been spelled so far
+  completion: boolean;
+}
+
+// Costs are negative log-likelihoods, so they add up along the word
+const MIN_PROBABILITY = 0.02;
+// A recognized letter the signer did not mean, e.g. a transition handshape
+const EXTRA_LETTER_COST = 2.5;
+// A letter the signer spelled but that was never recognized
+const MISSED_LETTER_COST = 3;
+// Each letter a completion adds beyond what has been spelled
+const COMPLETION_LETTER_COST = 0.35;
+// Weight of the word's frequency rank
+const PRIOR_WEIGHT = 0.3;
+// Suggestions averaging more than this per spelled letter are dropped
+const MAX_COST_PER_LETTER = 2;
+
+const letterCost = (spelled: SpelledLetter, letter: string) => {
+  const match = spelled.candidates.find((candidate) => candidate.gesture === letter);
+  const probability = match?.confidence ?? (spelled.letter === letter ? 0.5 : 0);
+  return -Math.log(Math.max(probability, MIN_PROBABILITY));
+};
+
+// Cheapest alignment of the spelled letters with the first j letters of
+// `spelling`, for every j
+function alignmentCosts(spelled: SpelledLetter[], spelling: string): number[] {
+  let previous = Array.from({ length: spelling.length + 1 }, (_, j) => j * MISSED_LETTER_COST);
+  for (let i = 1; i <= spelled.length; i++) {
+    const current = [previous[0] + EXTRA_LETTER_COST];
+    for (let j = 1; j <= spelling.length; j++) {
+      current[j] = Math.min(
+        previous[j - 1] + letterCost(spelled[i - 1], spelling[j - 1]),
+        previous[j] + EXTRA_LETTER_COST,
+        current[j - 1] + MISSED_LETTER_COST,
+      );
+    }
+    previous = current;
+  }
+  return previous;
+}
+
+// Most likely words for a fingerspelled letter sequence, using every
+// candidate the classifier considered for each letter so that look-alike
+// handshapes (M/N/S/T/E) can still spell the intended word. Entries longer
+// than the letters so far are offered as completions.
+export function suggestWords(
+  spelled: SpelledLetter[],
+  lexicon: LexiconEntry[],
+  limit = 3,
+): SpellingSuggestion[] {
+  if (spelled.length === 0) return [];
+
+  const suggestions: SpellingSuggestion[] = [];
+  lexicon.forEach((entry, rank) => {
+    const costs = alignmentCosts(spelled, entry.spelling);
+    const length = entry.spelling.length;
+    let cost = costs[length];
+    let completion = false;
+    // Completing needs a couple of letters to go on
+    if (spelled.length >= 2) {
+      for (let j = 1; j < length; j++) {
+        const completed = costs[j] + (length - j) * COMPLETION_LETTER_COST;
+        if (completed < cost) {
+          cost = completed;
+          completion = true;
+        }
+      }
+    }
+    if (cost / spelled.length > MAX_COST_PER_LETTER) return;
+    // User words are preferred over built-in words of the same fit
+    const prior = entry.custom ? 0 : PRIOR_WEIGHT * Math.log(rank + 2);
+    suggestions.push({ entry, cost: cost + prior, completion });
+  });
+
+  const seen = new Set<string>();
+  return suggestions
+    .sort((a, b) => a.cost - b.cost)
+    .filter(({ entry }) => !seen.has(entry.word) && !!seen.add(entry.word))
+    .slice(0, limit);
+}
@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, FileUp, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { EvaluationReportView } from "@/components/EvaluationReportView";
+import { SignLanguageSelector } from "@/components/SignLanguageSelector";
+import type { EvaluationRequest, EvaluationResponse } from "@/workers/evaluation-protocol";
+import {
+  createLearnedClassifier,
+  DEFAULT_SIGN_LANGUAGE,
+  EVALUATION_REPORT_FORMAT,
+  getSignLanguagePack,
+  GESTURE_MODEL_FORMAT,
+  parseDataset,
+  parseGestureModel,
+  type EvaluationReport,
+  type GestureModel,
+  type LandmarkDataset,
+} from "@shared/gesture";
+
+type EvaluationFile =
+  | { type: "dataset"; dataset: LandmarkDataset }
+  | { type: "model"; model: GestureModel }
+  | { type: "reports"; reports: EvaluationReport[] };
+
+const isReport = (value: unknown) => (value as EvaluationReport | null)?.format === EVALUATION_REPORT_FORMAT;
+
+// Datasets, gesture models and reports written by `npm run evaluate -- --json`
+// are told apart by their contents
+async function readEvaluationFile(file: File): Promise<EvaluationFile> {
+  const text = await file.text();
+  if (!/\.csv$/i.test(file.name)) {
+    const json = JSON.parse(text);
+    if (Array.isArray(json) && json.every(isReport)) return { type: "reports", reports: json };
+    if (isReport(json)) return { type: "reports", reports: [json] };
+    if (json?.format === GESTURE_MODEL_FORMAT) return { type: "model", model: parseGestureModel(json) };
+  }
+  return { type: "dataset", dataset: parseDataset(text, file.name) };
+}
+
+// Runs the classifiers over labeled landmark datasets in the browser, or
+// shows reports from the command-line runner
+const Evaluation = () => {
+  const [signLanguage, setSignLanguage] = useState(DEFAULT_SIGN_LANGUAGE);
+  const pack = getSignLanguagePack(signLanguage);
+  const [datasets, setDatasets] = useState<LandmarkDataset[]>([]);
+  const [model, setModel] = useState<GestureModel | null>(null);
+  const [loadedReports, setLoadedReports] = useState<EvaluationReport[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [evaluated, setEvaluated] = useState<EvaluationReport[]>([]);
+  // Percentage of samples classified, while an evaluation runs
+  const [progress, setProgress] = useState<number | null>(null);
+
+  // Evaluate in a worker; a newer request replaces the one still running
+  useEffect(() => {
+    setEvaluated([]);
+    if (datasets.length === 0) {
+      setProgress(null);
+      return;
+    }
+
+    const worker = new Worker(new URL("../workers/evaluation.worker.ts", import.meta.url), { type: "module" });
+    const finish = () => {
+      setProgress(null);
+      worker.terminate();
+    };
+    worker.onmessage = ({ data }: MessageEvent<EvaluationResponse>) => {
+      if (data.type === "progress") {
+        setProgress(Math.round((data.done / data.total) * 100));
+      } else if (data.type === "result") {
+        setEvaluated(data.reports);
+        finish();
+      } else {
+        setErrors((prev) => [...prev, `Evaluation failed: ${data.message}`]);
+        finish();
+      }
+    };
+    worker.onerror = (event) => {
+      setErrors((prev) => [...prev, `Evaluation failed: ${event.message || "the worker did not load"}`]);
+      finish();
+    };
+
+    setProgress(0);
+    worker.postMessage({ signLanguage, model, datasets } satisfies EvaluationRequest);
+    return () => worker.terminate();
+  }, [datasets, model, signLanguage]);
+
+  const reports = [...loadedReports, ...evaluated];
+
+  const loadFiles = async (files: FileList | null) => {
+    const failures: string[] = [];
+    for (const file of Array.from(files ?? [])) {
+      try {
+        const loaded = await readEvaluationFile(file);
+        if (loaded.type === "dataset") setDatasets((prev) => [...prev, loaded.dataset]);
+        else if (loaded.type === "model") setModel(loaded.model);
+        else setLoadedReports((prev) => [...prev, ...loaded.reports]);
+      } catch (err) {
+        failures.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    setErrors(failures);
+  };
+
+  const clear = () => {
+    setDatasets([]);
+    setModel(null);
+    setLoadedReports([]);
+    setErrors([]);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main id="main-content" className="container py-8 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link to="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+              <ArrowLeft className="h-4 w-4" aria-hidden="true" />
+              Back to SignSpeak
+            </Link>
+            <h1 className="mt-2 text-2xl font-bold text-foreground">Classifier evaluation</h1>
+            <p className="text-sm text-muted-foreground">
+              Load labeled landmark datasets (JSON or CSV), a gesture model to compare against the rules, or
+              reports saved with <code>npm run evaluate -- --json</code>.
+            </p>
+          </div>
+          <SignLanguageSelector value={signLanguage} onChange={setSignLanguage} />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button asChild>
+            <label className="cursor-pointer">
+              <FileUp className="h-4 w-4" />
+              Load files
+              <input
+                type="file"
+                accept=".json,.csv"
+                multiple
+                className="sr-only"
+                onChange={(e) => {
+                  loadFiles(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </Button>
+          {(datasets.length > 0 || model || loadedReports.length > 0) && (
+            <Button variant="ghost" onClick={clear}>
+              <Trash2 className="h-4 w-4" />
+              Clear
+            </Button>
+          )}
+          <p className="text-sm text-muted-foreground">
+            {datasets.length} dataset{datasets.length === 1 ? "" : "s"}
+            {model && `, ${createLearnedClassifier(model).name} model`}
+          </p>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-destructive" role="alert">
+            {errors.map((message) => <li key={message}>{message}</li>)}
+          </ul>
+        )}
+
+        {progress !== null && (
+          <div className="space-y-1" role="status">
+            <p className="text-sm text-muted-foreground">Evaluating… {progress}%</p>
+            <Progress value={progress} className="h-2" aria-label="Evaluation progress" />
+          </div>
+        )}
+
+        {reports.length === 0 && progress === null ? (
+          <p className="p-6 rounded-xl bg-muted/50 text-center text-sm text-muted-foreground">
+            No reports yet. Load a dataset to evaluate the {pack.shortName} classifiers.
+          </p>
+        ) : (
+          reports.map((report, i) => (
+            <EvaluationReportView key={`${i}-${report.classifier.id}-${report.dataset}`} report={report} pack={pack} />
+          ))
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Evaluation;
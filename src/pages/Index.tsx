@@ -1,20 +1,23 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { Header } from "@/components/Header";
 import { VoiceToText } from "@/components/VoiceToText";
 import { TextToVoice } from "@/components/TextToVoice";
 import { SignDetection } from "@/components/SignDetection";
 import { TextToSpeechButton } from "@/components/TextToSpeechButton";
 import { Accessibility, Users, Globe2, Hand, Mic, MessageSquare } from "lucide-react";
+import { useSignLanguage } from "@/hooks/use-sign-language";
 
 const Index = () => {
   const [language, setLanguage] = useState("en");
+  const { signLanguage, setSignLanguage } = useSignLanguage();
   const [detectedSignText, setDetectedSignText] = useState("");
 
   const features = [
     {
       icon: Hand,
       title: "Sign Language Detection",
-      description: "Real-time recognition of ASL signs using your camera",
+      description: "Real-time recognition of ASL and Indian Sign Language using your camera",
     },
     {
       icon: Accessibility,
@@ -40,7 +43,12 @@ const Index = () => {
         Skip to main content
       </a>
 
-      <Header language={language} onLanguageChange={setLanguage} />
+      <Header
+        language={language}
+        onLanguageChange={setLanguage}
+        signLanguage={signLanguage}
+        onSignLanguageChange={setSignLanguage}
+      />
 
       <main id="main-content" className="container py-8 space-y-10">
         {/* Hero section */}
@@ -92,6 +100,7 @@ const Index = () => {
           
           <SignDetection 
             language={language} 
+            signLanguage={signLanguage}
             onDetection={setDetectedSignText}
           />
 
@@ -183,6 +192,9 @@ const Index = () => {
           <p className="text-xs text-muted-foreground/70 mt-2">
             Built with accessibility and inclusion at its core
           </p>
+          <Link to="/evaluation" className="inline-block text-xs text-muted-foreground/70 mt-2 underline hover:text-foreground">
+            Classifier evaluation
+          </Link>
         </div>
       </footer>
     </div>
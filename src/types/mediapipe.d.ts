@@ -0,0 +1,89 @@
+// Type declarations for the MediaPipe Hands and Holistic script builds
+// (window.Hands, window.Holistic)
+interface NormalizedLandmark {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+interface HandednessClassification {
+  index: number;
+  score: number;
+  label: string;
+}
+
+interface HandsResults {
+  image: CanvasImageSource;
+  multiHandLandmarks?: NormalizedLandmark[][];
+  multiHandedness?: HandednessClassification[];
+}
+
+interface HandsOptions {
+  maxNumHands?: number;
+  modelComplexity?: 0 | 1;
+  minDetectionConfidence?: number;
+  minTrackingConfidence?: number;
+  selfieMode?: boolean;
+}
+
+interface HandsSolution {
+  setOptions(options: HandsOptions): void;
+  onResults(callback: (results: HandsResults) => void): void;
+  initialize(): Promise<void>;
+  send(inputs: { image: HTMLVideoElement | HTMLCanvasElement | ImageBitmap }): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface HandsConstructor {
+  new (config?: { locateFile?: (file: string, prefix?: string) => string }): HandsSolution;
+}
+
+// Holistic labels hands from the signer's point of view, matched to the pose
+interface HolisticResults {
+  image: CanvasImageSource;
+  poseLandmarks?: NormalizedLandmark[];
+  faceLandmarks?: NormalizedLandmark[];
+  leftHandLandmarks?: NormalizedLandmark[];
+  rightHandLandmarks?: NormalizedLandmark[];
+}
+
+interface HolisticOptions {
+  modelComplexity?: 0 | 1 | 2;
+  smoothLandmarks?: boolean;
+  refineFaceLandmarks?: boolean;
+  minDetectionConfidence?: number;
+  minTrackingConfidence?: number;
+  selfieMode?: boolean;
+}
+
+interface HolisticSolution {
+  setOptions(options: HolisticOptions): void;
+  onResults(callback: (results: HolisticResults) => void): void;
+  initialize(): Promise<void>;
+  send(inputs: { image: HTMLVideoElement | HTMLCanvasElement | ImageBitmap }): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface HolisticConstructor {
+  new (config?: { locateFile?: (file: string, prefix?: string) => string }): HolisticSolution;
+}
+
+declare global {
+  interface Window {
+    Hands?: HandsConstructor;
+    Holistic?: HolisticConstructor;
+  }
+}
+
+export type {
+  NormalizedLandmark,
+  HandednessClassification,
+  HandsResults,
+  HandsOptions,
+  HandsSolution,
+  HandsConstructor,
+  HolisticResults,
+  HolisticOptions,
+  HolisticSolution,
+  HolisticConstructor,
+};
@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+// MediaPipe solution files bundled by plugins/mediapipe-assets.ts
+declare module "virtual:mediapipe-assets" {
+  export const solutions: Record<
+    string,
+    {
+      version: string;
+      // Public path ending in "/"
+      baseUrl: string;
+      // File name → SRI digest
+      integrity: Record<string, string>;
+    }
+  >;
+}
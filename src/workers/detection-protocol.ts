@@ -0,0 +1,57 @@
+import type { OneEuroParams } from "@shared/gesture";
+import type { TrackingMode } from "@/hooks/use-recognition-settings";
+import type { AnalysisOptions, ClassifierSpec, FrameAnalysis, FrameAnalyzer } from "@/lib/frame-analysis";
+import type {
+  HandTracker,
+  SolutionSource,
+  TrackedFrame,
+  TrackerImage,
+  TrackerOptions,
+} from "@/lib/hand-tracking";
+
+export interface FrameRequest {
+  t: number;
+  aspectRatio: number;
+  // Landmark smoothing, or null for raw landmarks
+  smoothing: OneEuroParams | null;
+  // Classify the frame when a hand is in view; null only tracks it, e.g.
+  // while recording a custom sign
+  analysis: AnalysisOptions | null;
+  // Also return the tracker's unsmoothed output, for session recording
+  keepRaw: boolean;
+}
+
+export interface FrameResult extends TrackedFrame {
+  analysis: FrameAnalysis | null;
+  raw: TrackedFrame | null;
+}
+
+// Messages from the page to detection.worker.ts
+export type DetectorRequest =
+  | { type: "init"; tracking: TrackingMode; source: SolutionSource; options: TrackerOptions; spec: ClassifierSpec }
+  | { type: "configure"; spec: ClassifierSpec }
+  | { type: "options"; options: TrackerOptions; source: SolutionSource }
+  | { type: "frame"; id: number; image: ImageBitmap; request: FrameRequest };
+
+// Messages from detection.worker.ts back to the page
+export type DetectorResponse =
+  | { type: "ready" }
+  | { type: "result"; id: number; result: FrameResult }
+  | { type: "error"; id?: number; message: string };
+
+// One tracking and classification step, identical in the worker and on the
+// main thread
+export async function processFrame(
+  tracker: HandTracker,
+  analyzer: FrameAnalyzer,
+  image: TrackerImage,
+  request: FrameRequest,
+): Promise<FrameResult> {
+  const tracked = await tracker.track(image, request.aspectRatio);
+  const frame = analyzer.addFrame(request.t, tracked, request.smoothing);
+  const aspectRatio = tracked.aspectRatio ?? request.aspectRatio;
+  const analysis = request.analysis && frame.hands.length > 0
+    ? analyzer.analyze({ ...request.analysis, aspectRatio })
+    : null;
+  return { ...frame, analysis, raw: request.keepRaw ? tracked : null };
+}
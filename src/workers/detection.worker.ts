@@ -0,0 +1,52 @@
+import { createFrameAnalyzer, type FrameAnalyzer } from "@/lib/frame-analysis";
+import { createHandTracker, type HandTracker } from "@/lib/hand-tracking";
+import { processFrame, type DetectorRequest, type DetectorResponse } from "@/workers/detection-protocol";
+
+// Hand tracking and classification off the main thread. The page sends
+// camera frames as ImageBitmaps and gets landmarks and results back.
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<DetectorRequest>) => void) | null;
+  postMessage(message: DetectorResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let tracker: HandTracker | null = null;
+let analyzer: FrameAnalyzer | null = null;
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+scope.onmessage = async ({ data: message }) => {
+  switch (message.type) {
+    case "init":
+      try {
+        tracker = await createHandTracker(message.tracking, message.source, message.options);
+        analyzer = createFrameAnalyzer(message.spec);
+        scope.postMessage({ type: "ready" });
+      } catch (err) {
+        scope.postMessage({ type: "error", message: errorMessage(err) });
+      }
+      break;
+
+    case "configure":
+      analyzer?.configure(message.spec);
+      break;
+
+    case "options":
+      tracker?.setOptions(message.options, message.source);
+      break;
+
+    case "frame":
+      try {
+        if (!tracker || !analyzer) throw new Error("Detection worker is not initialized");
+        const result = await processFrame(tracker, analyzer, message.image, message.request);
+        scope.postMessage({ type: "result", id: message.id, result });
+      } catch (err) {
+        scope.postMessage({ type: "error", id: message.id, message: errorMessage(err) });
+      } finally {
+        message.image.close();
+      }
+      break;
+  }
+};
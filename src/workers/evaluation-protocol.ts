@@ -0,0 +1,14 @@
+import type { EvaluationReport, GestureModel, LandmarkDataset } from "@shared/gesture";
+
+// Messages from the evaluation page to evaluation.worker.ts
+export interface EvaluationRequest {
+  signLanguage: string;
+  model: GestureModel | null;
+  datasets: LandmarkDataset[];
+}
+
+// Messages from evaluation.worker.ts back to the page
+export type EvaluationResponse =
+  | { type: "progress"; done: number; total: number }
+  | { type: "result"; reports: EvaluationReport[] }
+  | { type: "error"; message: string };
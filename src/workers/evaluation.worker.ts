@@ -0,0 +1,38 @@
+import { createLearnedClassifier, createRuleClassifier, evaluateClassifier, getSignLanguagePack } from "@shared/gesture";
+import type { EvaluationRequest, EvaluationResponse } from "@/workers/evaluation-protocol";
+
+// Classifier evaluation off the main thread, so large datasets do not freeze
+// the page. Each request evaluates the rules, and the model when one is
+// given, over every dataset.
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<EvaluationRequest>) => void) | null;
+  postMessage(message: EvaluationResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// Samples between progress messages
+const PROGRESS_INTERVAL = 100;
+
+scope.onmessage = ({ data: { signLanguage, model, datasets } }) => {
+  try {
+    const pack = getSignLanguagePack(signLanguage);
+    const classifiers = [createRuleClassifier(pack), ...(model ? [createLearnedClassifier(model, pack)] : [])];
+    const total = classifiers.length * datasets.reduce((sum, dataset) => sum + dataset.samples.length, 0);
+    let finished = 0;
+
+    const reports = classifiers.flatMap((classifier) => datasets.map((dataset) => {
+      const report = evaluateClassifier(classifier, dataset, {
+        onProgress(done) {
+          if (done % PROGRESS_INTERVAL === 0) scope.postMessage({ type: "progress", done: finished + done, total });
+        },
+      });
+      finished += dataset.samples.length;
+      return report;
+    }));
+    scope.postMessage({ type: "result", reports });
+  } catch (err) {
+    scope.postMessage({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
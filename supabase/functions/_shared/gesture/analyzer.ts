@@ -0,0 +1,195 @@
+import { DEFAULT_THRESHOLDS, type FeatureThresholds } from './features.ts';
+import {
+  allowedStates,
+  GESTURE_DEFINITIONS,
+  type ContactConstraint,
+  type GestureDefinition,
+  type PositionConstraint,
+} from './definitions.ts';
+import { contactRange } from './classifier.ts';
+
+// duplicate - two definitions accept exactly the same frames
+// shadowed - every frame a definition accepts is taken by an earlier one,
+//            so it can never be the top candidate
+// conflict - the later definition is a handshape with no placements of its
+//            own, and only the earlier one's loose placements tell them
+//            apart, so the earlier one takes most of its frames
+// overlap - some frames match both; the earlier definition wins those
+// Conflicts and overlaps with an earlier sign listed in the later
+// definition's yieldsTo are intended and not reported.
+export type DefinitionIssueType = 'duplicate' | 'shadowed' | 'conflict' | 'overlap';
+
+export interface DefinitionIssue {
+  type: DefinitionIssueType;
+  // The later definition, which loses to `by`
+  gesture: string;
+  by: string;
+  message: string;
+}
+
+const FINGERS = ['index', 'middle', 'ring', 'pinky'] as const;
+
+// Positions rewritten as "a is past b by `by` along an axis"
+interface Ordering {
+  axis: 'x' | 'y' | 'spread';
+  a: number;
+  b: number;
+  by: number;
+}
+
+const toOrdering = (position: PositionConstraint): Ordering => {
+  switch (position.type) {
+    case 'above':
+      return { axis: 'y', a: position.a, b: position.b, by: position.by ?? 0 };
+    case 'below':
+      return { axis: 'y', a: position.b, b: position.a, by: position.by ?? 0 };
+    case 'outward':
+      return { axis: 'x', a: position.a, b: position.b, by: position.by ?? 0 };
+    case 'inward':
+      return { axis: 'x', a: position.b, b: position.a, by: position.by ?? 0 };
+    case 'spread':
+      return { axis: 'spread', a: Math.min(position.a, position.b), b: Math.max(position.a, position.b), by: position.min };
+  }
+};
+
+const samePair = (x: { a: number; b: number }, y: { a: number; b: number }) =>
+  (x.a === y.a && x.b === y.b) || (x.a === y.b && x.b === y.a);
+
+// Whether every frame that meets `specific` also meets `general`. Only
+// constraints the two definitions share are compared, so this can miss
+// implications that need geometry, but never reports a false one.
+function implies(specific: GestureDefinition, general: GestureDefinition, thresholds: FeatureThresholds): boolean {
+  for (const finger of FINGERS) {
+    const required = general.fingers?.[finger];
+    if (!required) continue;
+    const given = specific.fingers?.[finger];
+    if (!given) return false;
+    const allowed = allowedStates(required);
+    if (!allowedStates(given).every((state) => allowed.includes(state))) return false;
+  }
+  if (general.thumb && specific.thumb !== general.thumb) return false;
+  if (general.palm && specific.palm !== general.palm) return false;
+  if (general.pointing && specific.pointing !== general.pointing) return false;
+  if (general.location && specific.location !== general.location) return false;
+
+  const contactImplied = (required: ContactConstraint) => {
+    const [min, max] = contactRange(required, thresholds);
+    return (specific.contacts ?? []).some((given) => {
+      if (!samePair(given, required)) return false;
+      const [givenMin, givenMax] = contactRange(given, thresholds);
+      return givenMin >= min && givenMax <= max;
+    });
+  };
+  if (!(general.contacts ?? []).every(contactImplied)) return false;
+
+  const orderings = (specific.positions ?? []).map(toOrdering);
+  return (general.positions ?? []).map(toOrdering).every((required) =>
+    orderings.some((given) =>
+      given.axis === required.axis && given.a === required.a && given.b === required.b && given.by >= required.by,
+    ),
+  );
+}
+
+// Requirements on finger and thumb states, directions and location
+const handshapeOf = ({ positions: _positions, contacts: _contacts, ...definition }: GestureDefinition) => definition;
+
+const isTightContact = (contact: ContactConstraint) => contact.type === 'touch' || contact.type === 'together';
+
+// Whether `earlier` takes most of the frames that meet `later`: `later` adds
+// no placements to steer clear of it, its handshape meets the earlier one's,
+// and the earlier one's placements are coarse orderings or ranges rather than
+// contacts that only a narrow set of poses meet.
+function dominates(earlier: GestureDefinition, later: GestureDefinition, thresholds: FeatureThresholds): boolean {
+  if (later.positions?.length || later.contacts?.length) return false;
+  if ((earlier.contacts ?? []).some(isTightContact)) return false;
+  return implies(later, handshapeOf(earlier), thresholds);
+}
+
+// Whether some frame could meet both definitions, judged from the
+// constraints they share
+function compatible(x: GestureDefinition, y: GestureDefinition, thresholds: FeatureThresholds): boolean {
+  for (const finger of FINGERS) {
+    const [a, b] = [x.fingers?.[finger], y.fingers?.[finger]];
+    if (a && b && !allowedStates(a).some((state) => allowedStates(b).includes(state))) return false;
+  }
+  if (x.thumb && y.thumb && x.thumb !== y.thumb) return false;
+  if (x.palm && y.palm && x.palm !== y.palm) return false;
+  if (x.pointing && y.pointing && x.pointing !== y.pointing) return false;
+  if (x.location && y.location && x.location !== y.location) return false;
+
+  for (const a of x.contacts ?? []) {
+    for (const b of y.contacts ?? []) {
+      if (!samePair(a, b)) continue;
+      const [aMin, aMax] = contactRange(a, thresholds);
+      const [bMin, bMax] = contactRange(b, thresholds);
+      if (Math.max(aMin, bMin) >= Math.min(aMax, bMax)) return false;
+    }
+  }
+
+  // a past b by m and b past a by n needs m + n < 0
+  for (const a of (x.positions ?? []).map(toOrdering)) {
+    for (const b of (y.positions ?? []).map(toOrdering)) {
+      if (a.axis !== 'spread' && a.axis === b.axis && a.a === b.b && a.b === b.a && a.by + b.by >= 0) return false;
+    }
+  }
+  return true;
+}
+
+// Report definitions that overlap or can never win, comparing every pair in
+// priority order
+export function analyzeDefinitions(
+  definitions: GestureDefinition[] = GESTURE_DEFINITIONS,
+  thresholds: FeatureThresholds = DEFAULT_THRESHOLDS,
+): DefinitionIssue[] {
+  const issues: DefinitionIssue[] = [];
+  const shadowed = new Set<number>();
+
+  definitions.forEach((later, j) => {
+    for (let i = 0; i < j; i++) {
+      const earlier = definitions[i];
+      if (shadowed.has(i)) continue;
+
+      const laterInEarlier = implies(later, earlier, thresholds);
+      if (laterInEarlier && implies(earlier, later, thresholds)) {
+        issues.push({
+          type: 'duplicate',
+          gesture: later.gesture,
+          by: earlier.gesture,
+          message: `"${later.gesture}" has the same requirements as "${earlier.gesture}" and can never win`,
+        });
+        shadowed.add(j);
+        return;
+      }
+      if (laterInEarlier) {
+        issues.push({
+          type: 'shadowed',
+          gesture: later.gesture,
+          by: earlier.gesture,
+          message: `Every frame that matches "${later.gesture}" also matches the earlier "${earlier.gesture}"`,
+        });
+        shadowed.add(j);
+        return;
+      }
+      if (later.yieldsTo?.includes(earlier.gesture)) continue;
+      if (compatible(earlier, later, thresholds) && dominates(earlier, later, thresholds)) {
+        issues.push({
+          type: 'conflict',
+          gesture: later.gesture,
+          by: earlier.gesture,
+          message: `"${earlier.gesture}" accepts most "${later.gesture}" frames and wins them; ` +
+            `give "${later.gesture}" a requirement that rules "${earlier.gesture}" out`,
+        });
+      } else if (compatible(earlier, later, thresholds)) {
+        issues.push({
+          type: 'overlap',
+          gesture: later.gesture,
+          by: earlier.gesture,
+          message: implies(earlier, later, thresholds)
+            ? `"${earlier.gesture}" is a special case of "${later.gesture}" and takes priority`
+            : `Some frames match both "${earlier.gesture}" and "${later.gesture}"; "${earlier.gesture}" wins`,
+        });
+      }
+    }
+  });
+  return issues;
+}
@@ -0,0 +1,105 @@
+import { LANDMARK, type HandLandmarks, type Landmark } from './types.ts';
+import { toImageSpace } from './normalize.ts';
+
+// Face and upper-body points from holistic tracking, in MediaPipe's
+// normalized image coordinates like the hand landmarks. Any point may be
+// missing when that part of the body is out of frame.
+export interface BodyReference {
+  forehead?: Landmark;
+  chin?: Landmark;
+  chest?: Landmark;
+}
+
+// Where a hand is held relative to the body
+export type BodyLocation = 'forehead' | 'chin' | 'chest';
+
+// MediaPipe Face Mesh landmark indices
+export const FACE_LANDMARK = {
+  FOREHEAD: 10,
+  CHIN: 152,
+} as const;
+
+// MediaPipe Pose landmark indices
+export const POSE_LANDMARK = {
+  NOSE: 0,
+  MOUTH_LEFT: 9,
+  MOUTH_RIGHT: 10,
+  LEFT_SHOULDER: 11,
+  RIGHT_SHOULDER: 12,
+} as const;
+
+// Depth is measured from different origins for the hand, face and pose, so
+// only the image plane is compared
+const planarDistance = (a: Landmark, b: Landmark) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+const midpoint = (a: Landmark, b: Landmark): Landmark =>
+  [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, ((a[2] ?? 0) + (b[2] ?? 0)) / 2];
+
+// Reference points from face mesh and pose landmarks. The face mesh is more
+// precise; without it the pose's nose and mouth give an estimate.
+export function bodyReference(
+  face: Landmark[] | null | undefined,
+  pose: Landmark[] | null | undefined,
+  aspectRatio = 1,
+): BodyReference | undefined {
+  const reference: BodyReference = {};
+
+  if (face && face.length > FACE_LANDMARK.CHIN) {
+    reference.forehead = face[FACE_LANDMARK.FOREHEAD];
+    reference.chin = face[FACE_LANDMARK.CHIN];
+  } else if (pose && pose.length > POSE_LANDMARK.MOUTH_RIGHT) {
+    const nose = pose[POSE_LANDMARK.NOSE];
+    const mouth = midpoint(pose[POSE_LANDMARK.MOUTH_LEFT], pose[POSE_LANDMARK.MOUTH_RIGHT]);
+    const drop = mouth[1] - nose[1];
+    reference.chin = [mouth[0], mouth[1] + drop * 1.2, mouth[2]];
+    reference.forehead = [nose[0], nose[1] - drop * 2.5, nose[2]];
+  }
+
+  if (pose && pose.length > POSE_LANDMARK.RIGHT_SHOULDER) {
+    const left = pose[POSE_LANDMARK.LEFT_SHOULDER];
+    const right = pose[POSE_LANDMARK.RIGHT_SHOULDER];
+    // Shoulder width is measured across the frame, so convert it to height units
+    const shoulderWidth = Math.abs(left[0] - right[0]) * aspectRatio;
+    const shoulders = midpoint(left, right);
+    reference.chest = [shoulders[0], shoulders[1] + shoulderWidth * 0.35, shoulders[2]];
+  }
+
+  return Object.keys(reference).length > 0 ? reference : undefined;
+}
+
+// Radius around each reference point, in palm units; the chest is a larger target
+export interface LocationRadii {
+  face: number;
+  chest: number;
+}
+
+// Hand points that touch the body in location-dependent signs
+const CONTACT_POINTS = [LANDMARK.THUMB_TIP, LANDMARK.INDEX_TIP, LANDMARK.MIDDLE_TIP, LANDMARK.MIDDLE_MCP];
+
+// The reference point the hand is closest to, relative to its radius, or
+// null when the hand is away from all of them
+export function handLocation(
+  landmarks: HandLandmarks,
+  body: BodyReference,
+  radii: LocationRadii,
+  aspectRatio = 1,
+): BodyLocation | null {
+  const hand = toImageSpace(landmarks, aspectRatio);
+  const palmSize = planarDistance(hand[LANDMARK.WRIST], hand[LANDMARK.MIDDLE_MCP]) || 1;
+
+  let best: BodyLocation | null = null;
+  let bestRatio = 1;
+  for (const location of ['forehead', 'chin', 'chest'] as const) {
+    const point = body[location];
+    if (!point) continue;
+    const [reference] = toImageSpace([point], aspectRatio);
+    const nearest = Math.min(...CONTACT_POINTS.map((i) => planarDistance(hand[i], reference)));
+    const radius = location === 'chest' ? radii.chest : radii.face;
+    const ratio = nearest / palmSize / radius;
+    if (ratio < bestRatio) {
+      best = location;
+      bestRatio = ratio;
+    }
+  }
+  return best;
+}
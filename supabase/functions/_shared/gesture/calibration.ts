@@ -0,0 +1,151 @@
+import { LANDMARK, type HandLandmarks } from './types.ts';
+import type { Handedness } from './handedness.ts';
+import {
+  computeHandFeatures,
+  FINGER_LANDMARKS,
+  type FeatureThresholds,
+  type FingerName,
+} from './features.ts';
+import { distance } from './vector.ts';
+
+// A signer's hand is calibrated from three poses, each held close to the
+// camera and at signing distance:
+//   open  - flat hand, fingers together, palm to the camera
+//   fist  - fingers curled, thumb across them
+//   pinch - thumb and index fingertips touching
+// Thresholds are placed just outside what the signer actually reached, so a
+// stiff hand still reads as open and a loose fist still reads as curled.
+export type CalibrationPose = 'open' | 'fist' | 'pinch';
+export type CalibrationDistance = 'near' | 'far';
+
+export interface CalibrationStep {
+  pose: CalibrationPose;
+  distance: CalibrationDistance;
+}
+
+export const CALIBRATION_STEPS: CalibrationStep[] = [
+  { pose: 'open', distance: 'near' },
+  { pose: 'fist', distance: 'near' },
+  { pose: 'pinch', distance: 'near' },
+  { pose: 'open', distance: 'far' },
+  { pose: 'fist', distance: 'far' },
+  { pose: 'pinch', distance: 'far' },
+];
+
+// Fewer tracked frames than this per step are too noisy to calibrate from
+export const MIN_CALIBRATION_FRAMES = 10;
+
+export interface CalibrationCapture extends CalibrationStep {
+  // Raw landmarks of the signer's hand, one entry per tracked frame
+  frames: HandLandmarks[];
+  handedness?: Handedness;
+  aspectRatio?: number;
+}
+
+export interface HandCalibration {
+  // Only the thresholds the poses measure; the rest keep their defaults
+  thresholds: Partial<FeatureThresholds>;
+}
+
+// How far past the reached bends and distances each threshold is placed.
+// Signing is looser than a deliberate calibration pose, so the straightness
+// thresholds are never tightened far below their defaults.
+const JOINT_MARGIN = 15;
+const BASE_MARGIN = 20;
+const CURL_SHARE = 0.8;
+const TOUCH_SCALE = 1.5;
+const TOGETHER_SCALE = 1.3;
+// A curled finger or thumb must bend at least this much more than an open one
+const MIN_CURL_GAP = 40;
+
+const FINGERS = Object.keys(FINGER_LANDMARKS) as FingerName[];
+const LONG_FINGERS = FINGERS.filter((name) => name !== 'thumb');
+const NEIGHBOURING_TIPS: [number, number][] = [
+  [LANDMARK.INDEX_TIP, LANDMARK.MIDDLE_TIP],
+  [LANDMARK.MIDDLE_TIP, LANDMARK.RING_TIP],
+  [LANDMARK.RING_TIP, LANDMARK.PINKY_TIP],
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Nearest-rank percentile; one stray frame can't move the 10th or 90th
+const percentile = (values: number[], p: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+};
+
+const stepName = ({ pose, distance }: CalibrationStep) => `${pose} (${distance})`;
+
+interface FrameMeasurements {
+  // Base, middle and tip flexion per finger
+  bends: Record<FingerName, [number, number, number]>;
+  points: HandLandmarks;
+}
+
+function measure(landmarks: HandLandmarks, capture: CalibrationCapture): FrameMeasurements {
+  const { fingers, points } = computeHandFeatures(landmarks, {
+    handedness: capture.handedness,
+    aspectRatio: capture.aspectRatio,
+  });
+  const bends = {} as FrameMeasurements['bends'];
+  for (const name of FINGERS) bends[name] = fingers[name].bends;
+  return { bends, points };
+}
+
+// Thumb flexion as thumbState reads it: MCP plus IP
+const thumbFlexion = (bends: [number, number, number]) => bends[1] + bends[2];
+const totalFlexion = (bends: [number, number, number]) => bends[0] + bends[1] + bends[2];
+
+// Derive a signer's personal thresholds from one capture per calibration
+// step. Throws when a step is missing or
+// has too few frames.
+export function calibrateHand(captures: CalibrationCapture[]): HandCalibration {
+  const measured = new Map<CalibrationPose, FrameMeasurements[]>();
+
+  for (const step of CALIBRATION_STEPS) {
+    const capture = captures.find((c) => c.pose === step.pose && c.distance === step.distance);
+    const frames = capture?.frames.filter((frame) => frame?.length === 21) ?? [];
+    if (!capture || frames.length < MIN_CALIBRATION_FRAMES) {
+      throw new Error(`Not enough tracked frames for ${stepName(step)}`);
+    }
+    const frameMeasurements = frames.map((frame) => measure(frame, capture));
+    measured.set(step.pose, [...(measured.get(step.pose) ?? []), ...frameMeasurements]);
+  }
+
+  const open = measured.get('open') ?? [];
+  const fist = measured.get('fist') ?? [];
+  const pinch = measured.get('pinch') ?? [];
+  const longFingerBends = (frames: FrameMeasurements[]) => frames.flatMap((m) => LONG_FINGERS.map((name) => m.bends[name]));
+
+  // Open palm: how straight the signer's fingers and thumb get
+  const openBends = longFingerBends(open);
+  const openJoint = percentile(openBends.flatMap(([, middle, tip]) => [middle, tip]), 0.9);
+  const openBase = percentile(openBends.map(([base]) => base), 0.9);
+  const openTotal = percentile(openBends.map(totalFlexion), 0.9);
+  const openThumb = percentile(open.map((m) => thumbFlexion(m.bends.thumb)), 0.9);
+  const together = percentile(
+    open.flatMap((m) => NEIGHBOURING_TIPS.map(([a, b]) => distance(m.points[a], m.points[b]))),
+    0.9,
+  );
+
+  // Fist: how far they curl
+  const fistTotal = percentile(longFingerBends(fist).map(totalFlexion), 0.1);
+  const fistThumb = percentile(fist.map((m) => thumbFlexion(m.bends.thumb)), 0.1);
+
+  // Pinch: how close the tips get when touching
+  const tipGap = (m: FrameMeasurements) => distance(m.points[LANDMARK.THUMB_TIP], m.points[LANDMARK.INDEX_TIP]);
+  const pinchGaps = pinch.map(tipGap);
+
+  const thumbStraight = clamp(openThumb + JOINT_MARGIN, 40, 80);
+  const thresholds: Partial<FeatureThresholds> = {
+    extendedJoint: clamp(openJoint + JOINT_MARGIN, 40, 70),
+    extendedBase: clamp(openBase + BASE_MARGIN, 50, 80),
+    curledTotal: clamp(Math.max(fistTotal * CURL_SHARE, openTotal + MIN_CURL_GAP), 120, 220),
+    thumbStraight,
+    thumbCurled: clamp(Math.max(fistThumb * CURL_SHARE, thumbStraight + MIN_CURL_GAP), 70, 150),
+    touch: clamp(percentile(pinchGaps, 0.9) * TOUCH_SCALE, 0.25, 0.7),
+    together: clamp(together * TOGETHER_SCALE, 0.2, 0.5),
+  };
+
+  return { thresholds };
+}
@@ -0,0 +1,147 @@
+import { LANDMARK, type GestureResult, type HandLandmarks } from './types.ts';
+import { computeHandFeatures, type FeatureOptions, type FeatureThresholds, type HandFeatures } from './features.ts';
+import {
+  allowedStates,
+  GESTURE_DEFINITIONS,
+  type ContactConstraint,
+  type GestureDefinition,
+  type PositionConstraint,
+} from './definitions.ts';
+import { calibrateRuleMatches, rankCandidates, type RankOptions } from './ranking.ts';
+import { distance } from './vector.ts';
+
+export interface ClassifyOptions extends FeatureOptions, RankOptions {}
+
+export interface DefinitionMatch {
+  definition: GestureDefinition;
+  matched: boolean;
+  // Requirements the frame did not meet, in words
+  failures: string[];
+}
+
+// "thumb tip", "index mcp", ... by landmark index
+const LANDMARK_NAMES: string[] = [];
+for (const [name, index] of Object.entries(LANDMARK)) {
+  LANDMARK_NAMES[index] = name.toLowerCase().replace('_', ' ');
+}
+
+// Open distance range a contact constraint allows, in palm units
+export function contactRange(contact: ContactConstraint, thresholds: FeatureThresholds): [number, number] {
+  switch (contact.type) {
+    case 'touch':
+      return [0, thresholds.touch];
+    case 'together':
+      return [0, thresholds.together];
+    case 'apart':
+      return [thresholds.touch, Infinity];
+    case 'distance':
+      return [contact.min ?? 0, contact.max ?? Infinity];
+  }
+}
+
+const meetsContact = (contact: ContactConstraint, features: HandFeatures) => {
+  const [min, max] = contactRange(contact, features.thresholds);
+  const d = distance(features.points[contact.a], features.points[contact.b]);
+  return (min === 0 || d > min) && d < max;
+};
+
+const meetsPosition = (position: PositionConstraint, points: HandLandmarks) => {
+  const [ax, ay] = points[position.a];
+  const [bx, by] = points[position.b];
+  switch (position.type) {
+    case 'above':
+      return ay > by + (position.by ?? 0);
+    case 'below':
+      return ay < by - (position.by ?? 0);
+    case 'outward':
+      return ax > bx + (position.by ?? 0);
+    case 'inward':
+      return ax < bx - (position.by ?? 0);
+    case 'spread':
+      return Math.abs(ax - bx) > position.min;
+  }
+};
+
+export function describeContact(contact: ContactConstraint): string {
+  const [a, b] = [LANDMARK_NAMES[contact.a], LANDMARK_NAMES[contact.b]];
+  switch (contact.type) {
+    case 'touch':
+      return `${a} touches ${b}`;
+    case 'together':
+      return `${a} held together with ${b}`;
+    case 'apart':
+      return `${a} apart from ${b}`;
+    case 'distance':
+      return `${a} to ${b} distance in ${contact.min ?? 0}-${contact.max ?? '∞'}`;
+  }
+}
+
+export function describePosition(position: PositionConstraint): string {
+  const [a, b] = [LANDMARK_NAMES[position.a], LANDMARK_NAMES[position.b]];
+  if (position.type === 'spread') return `${a} at least ${position.min} sideways from ${b}`;
+  const margin = position.by ? ` by ${position.by}` : '';
+  return `${a} ${position.type} ${b}${margin}`;
+}
+
+// Requirements of one definition that the hand does not meet
+export function evaluateDefinition(definition: GestureDefinition, features: HandFeatures): string[] {
+  const failures: string[] = [];
+  for (const [finger, requirement] of Object.entries(definition.fingers ?? {})) {
+    const states = allowedStates(requirement);
+    const { state } = features.fingers[finger as keyof typeof features.fingers];
+    if (!states.includes(state)) failures.push(`${finger} ${states.join('/')} (is ${state})`);
+  }
+  if (definition.thumb && features.thumbOut !== (definition.thumb === 'out')) {
+    failures.push(`thumb ${definition.thumb}`);
+  }
+  if (definition.palm && features.palmDirection !== definition.palm) {
+    failures.push(`palm ${definition.palm} (is ${features.palmDirection})`);
+  }
+  if (definition.pointing && features.indexDirection !== definition.pointing) {
+    failures.push(`index pointing ${definition.pointing} (is ${features.indexDirection})`);
+  }
+  if (definition.location && features.location !== definition.location) {
+    failures.push(features.bodyTracked
+      ? `hand at ${definition.location} (is ${features.location ?? 'away from the body'})`
+      : `hand at ${definition.location} (needs body tracking)`);
+  }
+  for (const contact of definition.contacts ?? []) {
+    if (!meetsContact(contact, features)) failures.push(describeContact(contact));
+  }
+  for (const position of definition.positions ?? []) {
+    if (!meetsPosition(position, features.points)) failures.push(describePosition(position));
+  }
+  return failures;
+}
+
+// Every definition checked against one hand, in priority order
+export function explainGesture(
+  hand: HandLandmarks,
+  options: ClassifyOptions = {},
+  definitions: GestureDefinition[] = GESTURE_DEFINITIONS,
+): DefinitionMatch[] | null {
+  if (!hand || hand.length !== 21) return null;
+  const features = computeHandFeatures(hand, options);
+  return definitions.map((definition) => {
+    const failures = evaluateDefinition(definition, features);
+    return { definition, matched: failures.length === 0, failures };
+  });
+}
+
+// Classifier over the declarative gesture definitions - static ASL Alphabet
+// + common signs. Landmarks are normalized into the canonical palm frame
+// first, so "above" means towards the fingertips (+y), "outward" means
+// towards the thumb side (+x) and all distances are in palm units.
+export function classifyGesture(
+  hand: HandLandmarks,
+  options: ClassifyOptions = {},
+  definitions: GestureDefinition[] = GESTURE_DEFINITIONS,
+): GestureResult | null {
+  const explanation = explainGesture(hand, options, definitions);
+  if (!explanation) return null;
+
+  const matches = explanation
+    .filter((match) => match.matched)
+    .map(({ definition }) => ({ gesture: definition.gesture, confidence: definition.confidence }));
+  return rankCandidates(calibrateRuleMatches(matches), 1, options);
+}
@@ -0,0 +1,353 @@
+import { LANDMARK } from './types.ts';
+import type { Direction, FingerName, FingerState } from './features.ts';
+import type { BodyLocation } from './body.ts';
+
+// Any state other than extended
+export const FOLDED: FingerState[] = ['bent', 'hooked', 'curled'];
+
+// A finger must be in this state, or in one of these states
+export type FingerRequirement = FingerState | FingerState[];
+
+export const allowedStates = (requirement: FingerRequirement): FingerState[] =>
+  Array.isArray(requirement) ? requirement : [requirement];
+
+// Distance between two landmarks, in palm units. 'touch', 'together' and
+// 'apart' use the feature thresholds so calibration can adjust them.
+export type ContactConstraint =
+  | { type: 'touch'; a: number; b: number }
+  | { type: 'together'; a: number; b: number }
+  | { type: 'apart'; a: number; b: number }
+  | { type: 'distance'; a: number; b: number; min?: number; max?: number };
+
+// Relative position of two landmarks in the canonical palm frame, where
+// +y points towards the fingertips and +x towards the thumb side. `by` is
+// the margin a must clear, in palm units (negative to allow overlap).
+export type PositionConstraint =
+  | { type: 'above'; a: number; b: number; by?: number }
+  | { type: 'below'; a: number; b: number; by?: number }
+  | { type: 'outward'; a: number; b: number; by?: number }
+  | { type: 'inward'; a: number; b: number; by?: number }
+  | { type: 'spread'; a: number; b: number; min: number };
+
+export interface GestureDefinition {
+  gesture: string;
+  confidence: number;
+  description: string;
+  // Unlisted fingers may be in any state
+  fingers?: Partial<Record<Exclude<FingerName, 'thumb'>, FingerRequirement>>;
+  // Thumb held out from the hand, or tucked against it
+  thumb?: 'out' | 'in';
+  // Where the hand and the index finger point in the image
+  palm?: Direction;
+  pointing?: Direction;
+  // Where the hand is held relative to the body; needs holistic tracking
+  location?: BodyLocation;
+  contacts?: ContactConstraint[];
+  positions?: PositionConstraint[];
+  // Earlier signs that share some frames with this one and are meant to win
+  // them by priority; the analyzer does not report these overlaps
+  yieldsTo?: string[];
+}
+
+const { THUMB_MCP, THUMB_TIP, INDEX_MCP, INDEX_PIP, INDEX_TIP, MIDDLE_MCP, MIDDLE_TIP, RING_MCP, RING_TIP } = LANDMARK;
+
+const allFolded = { index: FOLDED, middle: FOLDED, ring: FOLDED, pinky: FOLDED };
+const allExtended = { index: 'extended', middle: 'extended', ring: 'extended', pinky: 'extended' } as const;
+const indexOnly = { index: 'extended', middle: FOLDED, ring: FOLDED, pinky: FOLDED } as const;
+const indexMiddle = { index: 'extended', middle: 'extended', ring: FOLDED, pinky: FOLDED } as const;
+const threeUp = { index: 'extended', middle: 'extended', ring: 'extended', pinky: FOLDED } as const;
+
+// Static one-handed signs in priority order: when several match a frame,
+// earlier definitions rank first. J and Z involve movement and are
+// recognized by matchMotion instead.
+export const GESTURE_DEFINITIONS: GestureDefinition[] = [
+  // ===== ASL ALPHABET =====
+  {
+    gesture: 'A', confidence: 0.82,
+    description: 'Fist with thumb alongside the index finger',
+    fingers: allFolded,
+    // Held out from the hand, the thumb makes Yes instead
+    thumb: 'in',
+    positions: [
+      { type: 'above', a: THUMB_TIP, b: INDEX_MCP },
+      { type: 'outward', a: THUMB_TIP, b: INDEX_MCP, by: -0.1 },
+    ],
+  },
+  {
+    gesture: 'B', confidence: 0.85,
+    description: 'Flat hand, fingers together, thumb tucked',
+    fingers: allExtended,
+    thumb: 'in',
+    contacts: [
+      { type: 'together', a: INDEX_TIP, b: MIDDLE_TIP },
+      { type: 'together', a: MIDDLE_TIP, b: RING_TIP },
+    ],
+  },
+  {
+    gesture: 'C', confidence: 0.78,
+    description: 'Curved hand like holding a cup',
+    fingers: { index: 'bent', middle: 'bent', ring: FOLDED, pinky: FOLDED },
+    contacts: [{ type: 'distance', a: THUMB_TIP, b: INDEX_TIP, min: 0.55, max: 1.4 }],
+    yieldsTo: ['A'],
+  },
+  {
+    gesture: 'D', confidence: 0.85,
+    description: 'Index up, others touch thumb',
+    fingers: indexOnly,
+    contacts: [{ type: 'touch', a: THUMB_TIP, b: MIDDLE_TIP }],
+  },
+  {
+    gesture: 'E', confidence: 0.80,
+    description: 'All fingers curled, thumb tucked under',
+    fingers: { index: 'curled', middle: 'curled', ring: 'curled', pinky: 'curled' },
+    thumb: 'in',
+    positions: [{ type: 'below', a: THUMB_TIP, b: INDEX_PIP }],
+    yieldsTo: ['A'],
+  },
+  {
+    gesture: 'F', confidence: 0.85,
+    description: 'OK sign with three fingers up (thumb and index touch)',
+    fingers: { middle: 'extended', ring: 'extended', pinky: 'extended' },
+    contacts: [{ type: 'touch', a: THUMB_TIP, b: INDEX_TIP }],
+    yieldsTo: ['B'],
+  },
+  {
+    gesture: 'G', confidence: 0.78,
+    description: 'Index pointing sideways, thumb parallel',
+    fingers: indexOnly,
+    pointing: 'side',
+    positions: [{ type: 'above', a: THUMB_TIP, b: THUMB_MCP, by: 0.3 }],
+    yieldsTo: ['D'],
+  },
+  {
+    gesture: 'H', confidence: 0.80,
+    description: 'Index and middle pointing sideways',
+    fingers: indexMiddle,
+    pointing: 'side',
+    contacts: [{ type: 'touch', a: INDEX_TIP, b: MIDDLE_TIP }],
+  },
+  {
+    gesture: 'I', confidence: 0.88,
+    description: 'Pinky up only',
+    fingers: { index: FOLDED, middle: FOLDED, ring: FOLDED, pinky: 'extended' },
+    thumb: 'in',
+  },
+  {
+    gesture: 'P', confidence: 0.78,
+    description: 'Like K but pointing down',
+    // Ahead of K, which also accepts a K held palm down
+    fingers: indexMiddle,
+    palm: 'down',
+    yieldsTo: ['H'],
+  },
+  {
+    gesture: 'K', confidence: 0.82,
+    description: 'Index and middle up in V, thumb between them',
+    fingers: indexMiddle,
+    contacts: [{ type: 'apart', a: INDEX_TIP, b: MIDDLE_TIP }],
+    positions: [{ type: 'above', a: THUMB_TIP, b: MIDDLE_MCP }],
+    yieldsTo: ['P'],
+  },
+  {
+    gesture: 'Q', confidence: 0.75,
+    description: 'Like G but pointing down',
+    // Ahead of L, which also accepts an L pointing down
+    fingers: indexOnly,
+    thumb: 'out',
+    pointing: 'down',
+    yieldsTo: ['D'],
+  },
+  {
+    gesture: 'L', confidence: 0.88,
+    description: 'L shape with thumb and index',
+    fingers: indexOnly,
+    thumb: 'out',
+    positions: [{ type: 'spread', a: THUMB_TIP, b: INDEX_MCP, min: 0.55 }],
+    yieldsTo: ['D', 'G', 'Q'],
+  },
+  {
+    gesture: 'M', confidence: 0.75,
+    description: 'Three fingers over thumb',
+    fingers: allFolded,
+    thumb: 'in',
+    positions: [
+      { type: 'below', a: THUMB_TIP, b: RING_MCP },
+      { type: 'below', a: INDEX_TIP, b: THUMB_TIP },
+    ],
+    yieldsTo: ['A', 'C', 'E'],
+  },
+  {
+    gesture: 'N', confidence: 0.75,
+    description: 'Two fingers over thumb',
+    fingers: allFolded,
+    thumb: 'in',
+    positions: [
+      { type: 'below', a: THUMB_TIP, b: MIDDLE_MCP },
+      { type: 'below', a: INDEX_TIP, b: THUMB_TIP },
+      { type: 'above', a: RING_TIP, b: THUMB_TIP },
+    ],
+    yieldsTo: ['A', 'C', 'E', 'M'],
+  },
+  {
+    gesture: 'O', confidence: 0.80,
+    description: 'Fingers curved to touch thumb (circular)',
+    fingers: { ring: FOLDED, pinky: FOLDED },
+    contacts: [
+      { type: 'touch', a: THUMB_TIP, b: INDEX_TIP },
+      { type: 'touch', a: THUMB_TIP, b: MIDDLE_TIP },
+    ],
+    yieldsTo: ['A', 'D', 'E', 'G', 'H', 'P', 'K', 'Q', 'L', 'M', 'N'],
+  },
+  {
+    gesture: 'R', confidence: 0.80,
+    description: 'Index and middle crossed',
+    fingers: indexMiddle,
+    contacts: [{ type: 'distance', a: INDEX_TIP, b: MIDDLE_TIP, max: 0.22 }],
+    yieldsTo: ['H', 'P', 'O'],
+  },
+  {
+    gesture: 'S', confidence: 0.82,
+    description: 'Fist with thumb over fingers',
+    fingers: allFolded,
+    thumb: 'in',
+    positions: [
+      { type: 'below', a: THUMB_TIP, b: INDEX_MCP },
+      { type: 'outward', a: THUMB_TIP, b: INDEX_TIP },
+    ],
+    yieldsTo: ['C', 'E', 'M', 'N', 'O'],
+  },
+  {
+    gesture: 'T', confidence: 0.78,
+    description: 'Thumb between index and middle (fist)',
+    fingers: allFolded,
+    thumb: 'in',
+    positions: [
+      { type: 'inward', a: THUMB_TIP, b: INDEX_MCP },
+      { type: 'outward', a: THUMB_TIP, b: MIDDLE_MCP },
+    ],
+    yieldsTo: ['A', 'C', 'E', 'M', 'N', 'O', 'S'],
+  },
+  {
+    gesture: 'U', confidence: 0.85,
+    description: 'Index and middle up together',
+    fingers: indexMiddle,
+    thumb: 'in',
+    contacts: [{ type: 'distance', a: INDEX_TIP, b: MIDDLE_TIP, max: 0.28 }],
+    yieldsTo: ['H', 'P', 'O', 'R'],
+  },
+  {
+    gesture: 'V', confidence: 0.88,
+    description: 'Peace sign (index and middle spread)',
+    fingers: indexMiddle,
+    contacts: [{ type: 'apart', a: INDEX_TIP, b: MIDDLE_TIP }],
+    yieldsTo: ['P', 'K', 'O'],
+  },
+  {
+    gesture: 'W', confidence: 0.85,
+    description: 'Three fingers up spread',
+    fingers: threeUp,
+    thumb: 'in',
+  },
+  {
+    gesture: 'X', confidence: 0.78,
+    description: 'Index bent like hook',
+    fingers: { index: 'hooked', middle: FOLDED, ring: FOLDED, pinky: FOLDED },
+    yieldsTo: ['A', 'M', 'N', 'O', 'S', 'T'],
+  },
+  {
+    gesture: 'Y', confidence: 0.88,
+    description: 'Thumb and pinky extended (shaka/hang loose)',
+    fingers: { index: FOLDED, middle: FOLDED, ring: FOLDED, pinky: 'extended' },
+    thumb: 'out',
+  },
+
+  // ===== COMMON SIGNS =====
+  {
+    gesture: '1', confidence: 0.85,
+    description: 'Number 1 / pointing: only index extended',
+    fingers: indexOnly,
+    thumb: 'in',
+    yieldsTo: ['D', 'G', 'O'],
+  },
+  {
+    gesture: '2', confidence: 0.82,
+    description: 'Number 2 / Peace',
+    fingers: indexMiddle,
+    // Catches two raised fingers none of the letters claim; a V reads as 2
+    // in number mode
+    yieldsTo: ['H', 'P', 'K', 'O', 'R', 'U', 'V'],
+  },
+  {
+    gesture: '3', confidence: 0.80,
+    description: 'Number 3',
+    fingers: threeUp,
+    thumb: 'out',
+  },
+  {
+    gesture: '4', confidence: 0.80,
+    description: 'Number 4: all fingers except thumb extended',
+    fingers: allExtended,
+    thumb: 'in',
+    yieldsTo: ['B', 'F'],
+  },
+  // 0, 6 and 9 share the O, W and F handshapes and are read as numbers in
+  // number mode; 10 is a thumbs-up shaken (see MOTION_GESTURES)
+  {
+    gesture: '7', confidence: 0.82,
+    description: 'Number 7: thumb touches ring finger, others up',
+    fingers: { index: 'extended', middle: 'extended', ring: FOLDED, pinky: 'extended' },
+    contacts: [{ type: 'touch', a: THUMB_TIP, b: RING_TIP }],
+  },
+  {
+    gesture: '8', confidence: 0.82,
+    description: 'Number 8: thumb touches middle finger, others up',
+    fingers: { index: 'extended', middle: FOLDED, ring: 'extended', pinky: 'extended' },
+    contacts: [{ type: 'touch', a: THUMB_TIP, b: MIDDLE_TIP }],
+  },
+  // Open hand with the thumb at the chin or forehead; without holistic
+  // tracking these never match and the hand reads as Hello
+  {
+    gesture: 'Mother', confidence: 0.86,
+    description: 'Open hand, thumb at the chin',
+    fingers: allExtended,
+    thumb: 'out',
+    location: 'chin',
+    yieldsTo: ['F'],
+  },
+  {
+    gesture: 'Father', confidence: 0.86,
+    description: 'Open hand, thumb at the forehead',
+    fingers: allExtended,
+    thumb: 'out',
+    location: 'forehead',
+    yieldsTo: ['F'],
+  },
+  {
+    gesture: 'Hello', confidence: 0.88,
+    description: 'Number 5 / Open hand',
+    fingers: allExtended,
+    thumb: 'out',
+    yieldsTo: ['F', 'Mother', 'Father'],
+  },
+  {
+    gesture: 'Yes', confidence: 0.85,
+    description: 'Thumbs up: fist with the thumb extended away from it',
+    fingers: allFolded,
+    thumb: 'out',
+    yieldsTo: ['C', 'O', 'X'],
+  },
+  {
+    gesture: 'I Love You', confidence: 0.85,
+    description: 'Thumb, index and pinky extended',
+    fingers: { index: 'extended', middle: FOLDED, ring: FOLDED, pinky: 'extended' },
+    thumb: 'out',
+  },
+  {
+    gesture: 'No', confidence: 0.80,
+    description: 'Fist: no fingers extended',
+    fingers: allFolded,
+    thumb: 'in',
+    // Catches a fist none of the fist letters claim
+    yieldsTo: ['A', 'C', 'E', 'M', 'N', 'O', 'S', 'T', 'X'],
+  },
+];
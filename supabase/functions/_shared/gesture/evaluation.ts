@@ -0,0 +1,263 @@
+import { UNKNOWN_GESTURE, type HandLandmarks } from './types.ts';
+import type { BodyReference } from './body.ts';
+import type { Handedness } from './handedness.ts';
+import type { GestureClassifier } from './learned.ts';
+import type { ClassifyHandsOptions, HandInput } from './pairs.ts';
+
+// ===== DATASET FORMAT =====
+//
+// Labeled landmark datasets are JSON:
+//
+//   { "format": "signspeak-landmark-dataset", "version": 1, "name": "...",
+//     "samples": [{ "label": "A", "aspectRatio": 1.333,
+//                   "hands": [{ "handedness": "Right", "landmarks": [[x, y, z], ... 21 points] }] }, ...] }
+//
+// or CSV with one single-hand sample per row and a header naming the columns:
+//
+//   label,handedness,aspectRatio,x0,y0,z0,x1,y1,z1,...,x20,y20,z20
+//
+// handedness and aspectRatio are optional in both. Landmarks are raw
+// MediaPipe coordinates, as the tracker reports them.
+
+export const LANDMARK_DATASET_FORMAT = 'signspeak-landmark-dataset';
+export const LANDMARK_DATASET_VERSION = 1;
+export const EVALUATION_REPORT_FORMAT = 'signspeak-evaluation-report';
+
+export interface LabeledSample {
+  label: string;
+  hands: HandInput[];
+  aspectRatio?: number;
+  // Face and body reference points, for datasets recorded with holistic tracking
+  body?: BodyReference;
+}
+
+export interface LandmarkDataset {
+  name: string;
+  samples: LabeledSample[];
+}
+
+const HANDEDNESS: Handedness[] = ['Left', 'Right'];
+
+function parseHandedness(value: unknown, where: string): Handedness | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (!HANDEDNESS.includes(value as Handedness)) {
+    throw new Error(`${where}: handedness must be Left or Right`);
+  }
+  return value as Handedness;
+}
+
+function parseLandmarks(value: unknown, where: string): HandLandmarks {
+  const valid = Array.isArray(value) && value.length === 21 && value.every((point) =>
+    Array.isArray(point) && point.length >= 2 && point.every((n) => typeof n === 'number' && Number.isFinite(n))
+  );
+  if (!valid) throw new Error(`${where}: landmarks must be 21 [x, y, z] points`);
+  return value as HandLandmarks;
+}
+
+export function parseDatasetJson(text: string, name = 'dataset'): LandmarkDataset {
+  const data = JSON.parse(text);
+  if (data?.format !== LANDMARK_DATASET_FORMAT) {
+    throw new Error('Not a landmark dataset file');
+  }
+  if (data.version !== LANDMARK_DATASET_VERSION) {
+    throw new Error(`Unsupported landmark dataset version: ${data.version}`);
+  }
+  if (!Array.isArray(data.samples)) {
+    throw new Error('Landmark dataset samples must be a list');
+  }
+  const samples = data.samples.map((sample: Record<string, unknown>, i: number): LabeledSample => {
+    const where = `Sample ${i + 1}`;
+    if (typeof sample?.label !== 'string' || !sample.label) throw new Error(`${where}: label is missing`);
+    if (!Array.isArray(sample.hands)) throw new Error(`${where}: hands must be a list`);
+    return {
+      label: sample.label,
+      hands: sample.hands.map((hand: Record<string, unknown>) => ({
+        landmarks: parseLandmarks(hand?.landmarks, where),
+        handedness: parseHandedness(hand?.handedness, where),
+      })),
+      aspectRatio: typeof sample.aspectRatio === 'number' ? sample.aspectRatio : undefined,
+      body: sample.body as BodyReference | undefined,
+    };
+  });
+  return { name: typeof data.name === 'string' ? data.name : name, samples };
+}
+
+export function parseDatasetCsv(text: string, name = 'dataset'): LandmarkDataset {
+  const [header, ...rows] = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (!header) throw new Error('CSV dataset is empty');
+  const columns = header.split(',').map((column) => column.trim());
+  const column = (key: string) => columns.indexOf(key);
+  if (column('label') < 0) throw new Error('CSV dataset has no label column');
+
+  const coordinates: number[][] = [];
+  for (let i = 0; i < 21; i++) {
+    const indices = ['x', 'y', 'z'].map((axis) => column(`${axis}${i}`));
+    if (indices[0] < 0 || indices[1] < 0) throw new Error(`CSV dataset has no x${i} and y${i} columns`);
+    coordinates.push(indices);
+  }
+
+  const samples = rows.map((row, i): LabeledSample => {
+    const where = `Row ${i + 2}`;
+    const cells = row.split(',').map((cell) => cell.trim());
+    const label = cells[column('label')];
+    if (!label) throw new Error(`${where}: label is missing`);
+    const number = (index: number) => (index < 0 || cells[index] === '' ? undefined : Number(cells[index]));
+    const landmarks = coordinates.map((indices) => indices.map((index) => number(index) ?? 0));
+    const aspectRatio = number(column('aspectRatio'));
+    return {
+      label,
+      hands: [{
+        landmarks: parseLandmarks(landmarks, where),
+        handedness: parseHandedness(cells[column('handedness')], where),
+      }],
+      aspectRatio: aspectRatio !== undefined && Number.isFinite(aspectRatio) ? aspectRatio : undefined,
+    };
+  });
+  return { name, samples };
+}
+
+// Parse a dataset file by its extension, falling back to its contents
+export function parseDataset(text: string, fileName: string): LandmarkDataset {
+  const name = fileName.replace(/^.*[\\/]/, '').replace(/\.(json|csv)$/i, '');
+  const isJson = /\.json$/i.test(fileName) || (!/\.csv$/i.test(fileName) && text.trimStart().startsWith('{'));
+  return isJson ? parseDatasetJson(text, name) : parseDatasetCsv(text, name);
+}
+
+// ===== EVALUATION =====
+
+export interface LabelMetrics {
+  label: string;
+  // Samples labeled with the sign, and frames classified as it
+  support: number;
+  predicted: number;
+  truePositives: number;
+  // null when there is nothing to divide by
+  precision: number | null;
+  recall: number | null;
+  // 0 when the sign is never predicted, or predicted but never signed
+  f1: number;
+}
+
+export interface LatencyStats {
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+export interface EvaluationReport {
+  format: typeof EVALUATION_REPORT_FORMAT;
+  classifier: { id: string; name: string };
+  dataset: string;
+  samples: number;
+  // Share of samples classified as their label
+  accuracy: number;
+  // Samples the classifier rejected as unknown
+  rejected: number;
+  // Row and column order of the confusion matrix; unknown comes last
+  labels: string[];
+  // confusion[actual][predicted], indexed like labels
+  confusion: number[][];
+  metrics: LabelMetrics[];
+  latency: LatencyStats;
+}
+
+export interface EvaluateOptions extends Omit<ClassifyHandsOptions, 'aspectRatio' | 'body'> {
+  // Clock for latency, in milliseconds
+  now?: () => number;
+  // Called after each sample is classified
+  onProgress?: (done: number, total: number) => void;
+}
+
+const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : null);
+
+const nearestRank = (sorted: number[], p: number) =>
+  sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))] : 0;
+
+// Classify every sample and compare against its label. Frames where the
+// classifier finds no hand count as unknown.
+export function evaluateClassifier(
+  classifier: GestureClassifier,
+  dataset: LandmarkDataset,
+  { now = () => performance.now(), onProgress, ...options }: EvaluateOptions = {},
+): EvaluationReport {
+  const predictions: string[] = [];
+  const durations: number[] = [];
+  for (const sample of dataset.samples) {
+    const startedAt = now();
+    const result = classifier.classify(sample.hands, { ...options, aspectRatio: sample.aspectRatio, body: sample.body });
+    durations.push(now() - startedAt);
+    predictions.push(result?.gesture ?? UNKNOWN_GESTURE);
+    onProgress?.(predictions.length, dataset.samples.length);
+  }
+
+  const signs = new Set([...dataset.samples.map((sample) => sample.label), ...predictions]);
+  signs.delete(UNKNOWN_GESTURE);
+  const labels = [...[...signs].sort((a, b) => a.localeCompare(b)), UNKNOWN_GESTURE];
+  const index = new Map(labels.map((label, i) => [label, i]));
+
+  const confusion = labels.map(() => labels.map(() => 0));
+  dataset.samples.forEach((sample, i) => {
+    confusion[index.get(sample.label) ?? labels.length - 1][index.get(predictions[i]) ?? labels.length - 1]++;
+  });
+
+  const metrics = labels.slice(0, -1).map((label, i): LabelMetrics => {
+    const support = confusion[i].reduce((sum, n) => sum + n, 0);
+    const predicted = confusion.reduce((sum, row) => sum + row[i], 0);
+    const truePositives = confusion[i][i];
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+    // The harmonic mean of precision and recall, defined even when one is not
+    const f1 = ratio(2 * truePositives, support + predicted) ?? 0;
+    return { label, support, predicted, truePositives, precision, recall, f1 };
+  });
+
+  const sorted = [...durations].sort((a, b) => a - b);
+  const correct = dataset.samples.filter((sample, i) => predictions[i] === sample.label).length;
+
+  return {
+    format: EVALUATION_REPORT_FORMAT,
+    classifier: { id: classifier.id, name: classifier.name },
+    dataset: dataset.name,
+    samples: dataset.samples.length,
+    accuracy: ratio(correct, dataset.samples.length) ?? 0,
+    rejected: predictions.filter((prediction) => prediction === UNKNOWN_GESTURE).length,
+    labels,
+    confusion,
+    metrics,
+    latency: {
+      meanMs: sorted.length > 0 ? sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length : 0,
+      p50Ms: nearestRank(sorted, 0.5),
+      p95Ms: nearestRank(sorted, 0.95),
+      maxMs: sorted[sorted.length - 1] ?? 0,
+    },
+  };
+}
+
+const formatShare = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+// Plain-text rendering of a report, for terminals and CI logs
+export function formatReport(report: EvaluationReport): string {
+  const { latency } = report;
+  const lines = [
+    `${report.classifier.name} on ${report.dataset}: ${report.samples} samples`,
+    `Accuracy ${formatShare(report.accuracy)}, ${report.rejected} rejected as ${UNKNOWN_GESTURE}`,
+    `Latency mean ${latency.meanMs.toFixed(3)} ms, p50 ${latency.p50Ms.toFixed(3)} ms, ` +
+      `p95 ${latency.p95Ms.toFixed(3)} ms, max ${latency.maxMs.toFixed(3)} ms`,
+    '',
+  ];
+
+  const width = Math.max(7, ...report.labels.map((label) => label.length));
+  const pad = (text: string | number) => String(text).padStart(width);
+  lines.push(['sign', 'support', 'precision', 'recall', 'f1'].map(pad).join(' '));
+  for (const m of report.metrics) {
+    lines.push([m.label, m.support, formatShare(m.precision), formatShare(m.recall), formatShare(m.f1)].map(pad).join(' '));
+  }
+
+  lines.push('', 'Confusion matrix (rows: actual, columns: predicted)');
+  lines.push([pad(''), ...report.labels.map(pad)].join(' '));
+  report.confusion.forEach((row, i) => {
+    lines.push([pad(report.labels[i]), ...row.map((n) => pad(n || '.'))].join(' '));
+  });
+  return lines.join('\n');
+}
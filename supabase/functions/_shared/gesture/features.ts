@@ -0,0 +1,150 @@
+import { LANDMARK, type HandLandmarks, type Landmark } from './types.ts';
+import { normalizeHand, toImageSpace, type NormalizeOptions } from './normalize.ts';
+import { handLocation, type BodyLocation, type BodyReference } from './body.ts';
+import { angleBetween, sub } from './vector.ts';
+
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
+// extended - straight; bent - curved as in C; hooked - only the tip joints
+// folded as in X; curled - folded into the palm as in a fist
+export type FingerState = 'extended' | 'bent' | 'hooked' | 'curled';
+
+export type Direction = 'up' | 'down' | 'side';
+
+// Landmark indices of each finger, from base joint to tip
+export const FINGER_LANDMARKS: Record<FingerName, [number, number, number, number]> = {
+  thumb: [LANDMARK.THUMB_CMC, LANDMARK.THUMB_MCP, LANDMARK.THUMB_IP, LANDMARK.THUMB_TIP],
+  index: [LANDMARK.INDEX_MCP, LANDMARK.INDEX_PIP, LANDMARK.INDEX_DIP, LANDMARK.INDEX_TIP],
+  middle: [LANDMARK.MIDDLE_MCP, LANDMARK.MIDDLE_PIP, LANDMARK.MIDDLE_DIP, LANDMARK.MIDDLE_TIP],
+  ring: [LANDMARK.RING_MCP, LANDMARK.RING_PIP, LANDMARK.RING_DIP, LANDMARK.RING_TIP],
+  pinky: [LANDMARK.PINKY_MCP, LANDMARK.PINKY_PIP, LANDMARK.PINKY_DIP, LANDMARK.PINKY_TIP],
+};
+
+// Angles are in degrees, distances in palm units
+export interface FeatureThresholds {
+  // Max flexion of the middle and tip joints for a finger to count as extended
+  extendedJoint: number;
+  // Max flexion of the knuckle for a finger to count as extended
+  extendedBase: number;
+  // Min total flexion for a finger to count as curled into the palm
+  curledTotal: number;
+  // Min flexion of the middle joint for a hooked finger
+  hookedJoint: number;
+  // Max combined thumb MCP + IP flexion for a straight thumb
+  thumbStraight: number;
+  // Min combined thumb MCP + IP flexion for a curled thumb
+  thumbCurled: number;
+  // How far past the index knuckle a straight thumb must reach to count as out
+  thumbOut: number;
+  // Max fingertip distance for two fingertips to touch
+  touch: number;
+  // Max distance between neighbouring fingertips held together
+  together: number;
+  // Max distance from the hand to the forehead or chin to count as there
+  nearFace: number;
+  // Max distance from the hand to the middle of the chest
+  nearChest: number;
+}
+
+export const DEFAULT_THRESHOLDS: FeatureThresholds = {
+  extendedJoint: 45,
+  extendedBase: 60,
+  curledTotal: 180,
+  hookedJoint: 60,
+  thumbStraight: 50,
+  thumbCurled: 110,
+  thumbOut: 0.35,
+  touch: 0.45,
+  together: 0.35,
+  nearFace: 0.8,
+  nearChest: 1.6,
+};
+
+export interface FingerFeatures {
+  state: FingerState;
+  // Flexion at the base, middle and tip joints in degrees
+  bends: [number, number, number];
+}
+
+export interface HandFeatures {
+  // Landmarks in the canonical palm frame (see normalizeHand)
+  points: HandLandmarks;
+  fingers: Record<FingerName, FingerFeatures>;
+  // Thumb straight and held away from the side of the hand
+  thumbOut: boolean;
+  // Where the hand points in the image (wrist to middle knuckle)
+  palmDirection: Direction;
+  // Where the index finger points in the image
+  indexDirection: Direction;
+  // Where the hand is held relative to the body, null when away from it.
+  // Only known with holistic tracking (bodyTracked).
+  location: BodyLocation | null;
+  bodyTracked: boolean;
+  thresholds: FeatureThresholds;
+}
+
+export interface FeatureOptions extends NormalizeOptions {
+  thresholds?: Partial<FeatureThresholds>;
+  // Face and body reference points, when holistic tracking is on
+  body?: BodyReference;
+}
+
+const jointBends = (points: HandLandmarks, joints: number[]): [number, number, number] => {
+  const [base, middle, tip, end] = joints.map((i) => points[i]);
+  const wrist = points[LANDMARK.WRIST];
+  return [
+    angleBetween(sub(base, wrist), sub(middle, base)),
+    angleBetween(sub(middle, base), sub(tip, middle)),
+    angleBetween(sub(tip, middle), sub(end, tip)),
+  ];
+};
+
+const fingerState = (bends: [number, number, number], t: FeatureThresholds): FingerState => {
+  const [base, middle, tip] = bends;
+  if (base < t.extendedBase && middle < t.extendedJoint && tip < t.extendedJoint) return 'extended';
+  if (base + middle + tip >= t.curledTotal) return 'curled';
+  if (base < t.extendedBase && middle >= t.hookedJoint) return 'hooked';
+  return 'bent';
+};
+
+const thumbState = (bends: [number, number, number], t: FeatureThresholds): FingerState => {
+  const flexion = bends[1] + bends[2];
+  if (flexion < t.thumbStraight) return 'extended';
+  if (flexion > t.thumbCurled) return 'curled';
+  return 'bent';
+};
+
+// Image-space direction of a vector, with y growing downwards
+const direction = (from: Landmark, to: Landmark): Direction => {
+  const [dx, dy] = sub(to, from);
+  if (Math.abs(dx) > Math.abs(dy)) return 'side';
+  return dy < 0 ? 'up' : 'down';
+};
+
+export function computeHandFeatures(landmarks: HandLandmarks, options: FeatureOptions = {}): HandFeatures {
+  const thresholds = { ...DEFAULT_THRESHOLDS, ...options.thresholds };
+  const points = normalizeHand(landmarks, options);
+
+  const fingers = {} as Record<FingerName, FingerFeatures>;
+  for (const name of Object.keys(FINGER_LANDMARKS) as FingerName[]) {
+    const bends = jointBends(points, FINGER_LANDMARKS[name]);
+    const state = name === 'thumb' ? thumbState(bends, thresholds) : fingerState(bends, thresholds);
+    fingers[name] = { state, bends };
+  }
+
+  const thumbReach = points[LANDMARK.THUMB_TIP][0] - points[LANDMARK.INDEX_MCP][0];
+  const image = toImageSpace(landmarks, options.aspectRatio);
+
+  return {
+    points,
+    fingers,
+    thumbOut: fingers.thumb.state === 'extended' && thumbReach > thresholds.thumbOut,
+    palmDirection: direction(image[LANDMARK.WRIST], image[LANDMARK.MIDDLE_MCP]),
+    indexDirection: direction(image[LANDMARK.INDEX_MCP], image[LANDMARK.INDEX_TIP]),
+    location: options.body
+      ? handLocation(landmarks, options.body, { face: thresholds.nearFace, chest: thresholds.nearChest }, options.aspectRatio)
+      : null,
+    bodyTracked: !!options.body,
+    thresholds,
+  };
+}
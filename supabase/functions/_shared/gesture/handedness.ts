@@ -0,0 +1,25 @@
+import type { HandLandmarks } from './types.ts';
+
+// The signer's physical hand. The rule set is written for a right hand.
+export type Handedness = 'Left' | 'Right';
+
+// MediaPipe labels hands assuming the input image is mirrored (selfie view).
+// Callers that send raw, unmirrored camera frames must swap the label.
+export function fromMediaPipeLabel(label: string | undefined, mirroredInput: boolean): Handedness | undefined {
+  if (label !== 'Left' && label !== 'Right') return undefined;
+  if (mirroredInput) return label;
+  return label === 'Left' ? 'Right' : 'Left';
+}
+
+// Pick the hand to classify as: an explicit user preference wins over detection
+export function resolveHandedness(
+  detected: Handedness | undefined,
+  preferred: Handedness | undefined,
+): Handedness {
+  return preferred ?? detected ?? 'Right';
+}
+
+// Flip a hand horizontally so a left hand can be classified with right-hand rules
+export function mirrorHand(landmarks: HandLandmarks): HandLandmarks {
+  return landmarks.map(([x, y, z = 0]) => [1 - x, y, z]);
+}
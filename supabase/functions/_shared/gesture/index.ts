@@ -0,0 +1,135 @@
+// Public surface of the shared gesture classifier.
+// Browser: import from "@shared/gesture". Deno: import from "../_shared/gesture/index.ts".
+
+export { GESTURE_CONTRACT_VERSION, LANDMARK, UNKNOWN_GESTURE } from './types.ts';
+export type { GestureCandidate, GestureResult, HandLandmarks, Landmark } from './types.ts';
+export { calibrateRuleMatches, DEFAULT_REJECTION_THRESHOLD, isUnknown, rankCandidates } from './ranking.ts';
+export type { RankOptions } from './ranking.ts';
+export {
+  classifyGesture,
+  contactRange,
+  describeContact,
+  describePosition,
+  evaluateDefinition,
+  explainGesture,
+} from './classifier.ts';
+export type { ClassifyOptions, DefinitionMatch } from './classifier.ts';
+export { allowedStates, FOLDED, GESTURE_DEFINITIONS } from './definitions.ts';
+export type {
+  ContactConstraint,
+  FingerRequirement,
+  GestureDefinition,
+  PositionConstraint,
+} from './definitions.ts';
+export { analyzeDefinitions } from './analyzer.ts';
+export type { DefinitionIssue, DefinitionIssueType } from './analyzer.ts';
+export {
+  classifyHands,
+  classifyPair,
+  closedHand,
+  dominantHandOf,
+  flatHand,
+  PAIR_GESTURES,
+  pointingHand,
+  resolvePair,
+} from './pairs.ts';
+export type {
+  ClassifyHandsOptions,
+  HandInput,
+  HandPair,
+  PairAnchor,
+  PairConstraint,
+  PairGestureRule,
+  PairRole,
+  RuleSet,
+} from './pairs.ts';
+export { fromMediaPipeLabel, mirrorHand, resolveHandedness } from './handedness.ts';
+export type { Handedness } from './handedness.ts';
+export { normalizeHand, toImageSpace } from './normalize.ts';
+export { bodyReference, FACE_LANDMARK, handLocation, POSE_LANDMARK } from './body.ts';
+export type { BodyLocation, BodyReference, LocationRadii } from './body.ts';
+export type { NormalizeOptions } from './normalize.ts';
+export { computeHandFeatures, DEFAULT_THRESHOLDS, FINGER_LANDMARKS } from './features.ts';
+export type {
+  Direction,
+  FeatureOptions,
+  FeatureThresholds,
+  FingerFeatures,
+  FingerName,
+  FingerState,
+  HandFeatures,
+} from './features.ts';
+export {
+  appendFrame,
+  BOUNCE_MIN_SHIFT,
+  detectBounce,
+  dtwDistance,
+  matchMotion,
+  MOTION_GESTURES,
+  normalizePath,
+  resamplePath,
+  TRAJECTORY_WINDOW_MS,
+} from './motion.ts';
+export type { BounceOptions, MatchMotionOptions, MotionTemplate, Point2D, TrajectoryFrame } from './motion.ts';
+export { calibrateHand, CALIBRATION_STEPS, MIN_CALIBRATION_FRAMES } from './calibration.ts';
+export type {
+  CalibrationCapture,
+  CalibrationDistance,
+  CalibrationPose,
+  CalibrationStep,
+  HandCalibration,
+} from './calibration.ts';
+export { createLandmarkSmoother, DEFAULT_SMOOTHING } from './smoothing.ts';
+export type { LandmarkSmoother, OneEuroParams } from './smoothing.ts';
+export {
+  combineClassifiers,
+  createLearnedClassifier,
+  createRuleClassifier,
+  createSampleClassifier,
+  FEATURE_SIZE,
+  GESTURE_MODEL_FORMAT,
+  GESTURE_MODEL_VERSION,
+  handFeatureVector,
+  knnProbabilities,
+  mlpProbabilities,
+  modelProbabilities,
+  parseGestureModel,
+  ruleClassifier,
+} from './learned.ts';
+export type {
+  Activation,
+  GestureClassifier,
+  GestureModel,
+  KnnModel,
+  KnnSample,
+  MlpLayer,
+  MlpModel,
+  SampleClassifierOptions,
+} from './learned.ts';
+export {
+  evaluateClassifier,
+  EVALUATION_REPORT_FORMAT,
+  formatReport,
+  LANDMARK_DATASET_FORMAT,
+  LANDMARK_DATASET_VERSION,
+  parseDataset,
+  parseDatasetCsv,
+  parseDatasetJson,
+} from './evaluation.ts';
+export type {
+  EvaluateOptions,
+  EvaluationReport,
+  LabeledSample,
+  LabelMetrics,
+  LandmarkDataset,
+  LatencyStats,
+} from './evaluation.ts';
+export { canSpell, glossFor, LATIN_ALPHABET, numberFor, packVocabulary } from './pack.ts';
+export type { PackVocabulary, SignLanguagePack } from './pack.ts';
+export {
+  ASL_PACK,
+  DEFAULT_SIGN_LANGUAGE,
+  getSignLanguagePack,
+  ISL_PACK,
+  SIGN_LANGUAGE_PACKS,
+} from './packs/index.ts';
@@ -0,0 +1,305 @@
+import type { GestureResult, HandLandmarks } from './types.ts';
+import { normalizeHand, type NormalizeOptions } from './normalize.ts';
+import {
+  classifyHands,
+  classifyPair,
+  dominantHandOf,
+  PAIR_GESTURES,
+  resolvePair,
+  type ClassifyHandsOptions,
+  type HandInput,
+  type RuleSet,
+} from './pairs.ts';
+import { isUnknown, rankCandidates } from './ranking.ts';
+
+// Anything that turns tracked hands into a gesture. Implementations must be
+// pure CPU code so they run unchanged in the browser, a worker and Deno.
+export interface GestureClassifier {
+  id: string;
+  name: string;
+  classify(hands: HandInput[], options?: ClassifyHandsOptions): GestureResult | null;
+}
+
+// Hand-written rules, ASL unless another rule set is given
+export function createRuleClassifier(rules?: RuleSet): GestureClassifier {
+  return {
+    id: 'rules',
+    name: 'Rule-based',
+    classify: (hands, options) => classifyHands(hands, options, rules),
+  };
+}
+
+export const ruleClassifier = createRuleClassifier();
+
+// ===== MODEL FORMAT =====
+//
+// Learned models are plain JSON:
+//
+//   { "format": "signspeak-gesture-model", "version": 1, "type": "knn",
+//     "labels": ["A", "B", ...], "k": 5,
+//     "samples": [{ "label": "A", "features": [63 numbers] }, ...] }
+//
+//   { "format": "signspeak-gesture-model", "version": 1, "type": "mlp",
+//     "labels": ["A", "B", ...],
+//     "layers": [{ "weights": [[...], ...], "biases": [...], "activation": "relu" }, ...] }
+//
+// Features are the 21 landmarks of the dominant hand after normalizeHand,
+// flattened as [x0, y0, z0, x1, ...]. MLP weights are stored one row per
+// output unit; the last layer's outputs are passed through softmax.
+
+export const GESTURE_MODEL_FORMAT = 'signspeak-gesture-model';
+export const GESTURE_MODEL_VERSION = 1;
+export const FEATURE_SIZE = 63;
+
+export interface KnnSample {
+  label: string;
+  features: number[];
+}
+
+export interface KnnModel {
+  format: typeof GESTURE_MODEL_FORMAT;
+  version: number;
+  type: 'knn';
+  labels: string[];
+  k: number;
+  samples: KnnSample[];
+}
+
+export type Activation = 'relu' | 'tanh' | 'linear';
+
+export interface MlpLayer {
+  weights: number[][];
+  biases: number[];
+  activation: Activation;
+}
+
+export interface MlpModel {
+  format: typeof GESTURE_MODEL_FORMAT;
+  version: number;
+  type: 'mlp';
+  labels: string[];
+  layers: MlpLayer[];
+}
+
+export type GestureModel = KnnModel | MlpModel;
+
+// Shape of a model file before validation
+interface RawGestureModel {
+  format?: string;
+  version?: number;
+  type?: string;
+  labels?: string[];
+  k?: number;
+  samples?: KnnSample[];
+  layers?: MlpLayer[];
+}
+
+const isNumberArray = (value: unknown, length?: number): value is number[] =>
+  Array.isArray(value) &&
+  (length === undefined || value.length === length) &&
+  value.every((n) => typeof n === 'number' && Number.isFinite(n));
+
+// Validate untrusted JSON and return it as a typed model
+export function parseGestureModel(json: unknown): GestureModel {
+  const model = json as RawGestureModel | null;
+  if (!model || model.format !== GESTURE_MODEL_FORMAT) {
+    throw new Error('Not a gesture model file');
+  }
+  if (model.version !== GESTURE_MODEL_VERSION) {
+    throw new Error(`Unsupported gesture model version: ${model.version}`);
+  }
+  if (!Array.isArray(model.labels) || model.labels.some((label) => typeof label !== 'string')) {
+    throw new Error('Gesture model labels must be a list of strings');
+  }
+
+  if (model.type === 'knn') {
+    if (!Array.isArray(model.samples) || model.samples.length === 0) {
+      throw new Error('k-NN model has no samples');
+    }
+    for (const sample of model.samples) {
+      if (!model.labels.includes(sample?.label) || !isNumberArray(sample.features, FEATURE_SIZE)) {
+        throw new Error('k-NN model contains an invalid sample');
+      }
+    }
+    return { ...model, k: Math.max(1, Math.floor(model.k ?? 5)) } as KnnModel;
+  }
+
+  if (model.type === 'mlp') {
+    if (!Array.isArray(model.layers) || model.layers.length === 0) {
+      throw new Error('MLP model has no layers');
+    }
+    let inputs = FEATURE_SIZE;
+    for (const layer of model.layers) {
+      if (!Array.isArray(layer?.weights) || !isNumberArray(layer.biases, layer.weights.length) ||
+          !layer.weights.every((row) => isNumberArray(row, inputs))) {
+        throw new Error('MLP model contains a layer with mismatched weights');
+      }
+      inputs = layer.weights.length;
+    }
+    if (inputs !== model.labels.length) {
+      throw new Error('MLP output size does not match the number of labels');
+    }
+    return model as MlpModel;
+  }
+
+  throw new Error(`Unknown gesture model type: ${String(model.type)}`);
+}
+
+// ===== INFERENCE =====
+
+// Flattened canonical landmarks of one hand
+export function handFeatureVector(landmarks: HandLandmarks, options: NormalizeOptions = {}): number[] {
+  return normalizeHand(landmarks, options).flatMap(([x, y, z]) => [x, y, z]);
+}
+
+const euclidean = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+const softmax = (values: number[]) => {
+  const max = Math.max(...values);
+  const exps = values.map((v) => Math.exp(v - max));
+  const total = exps.reduce((a, b) => a + b, 0);
+  return exps.map((v) => v / total);
+};
+
+const activate = (value: number, activation: Activation) => {
+  switch (activation) {
+    case 'relu':
+      return Math.max(0, value);
+    case 'tanh':
+      return Math.tanh(value);
+    case 'linear':
+      return value;
+  }
+};
+
+// Per-label probabilities from distance-weighted votes of the k nearest samples
+export function knnProbabilities(model: KnnModel, features: number[]): number[] {
+  const nearest = model.samples
+    .map((sample) => ({ label: sample.label, distance: euclidean(features, sample.features) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, model.k);
+
+  const votes = model.labels.map(() => 0);
+  for (const { label, distance } of nearest) {
+    votes[model.labels.indexOf(label)] += 1 / (distance + 1e-6);
+  }
+  const total = votes.reduce((a, b) => a + b, 0) || 1;
+  return votes.map((v) => v / total);
+}
+
+// Per-label probabilities from a forward pass through the network
+export function mlpProbabilities(model: MlpModel, features: number[]): number[] {
+  let values = features;
+  model.layers.forEach((layer, i) => {
+    const isLast = i === model.layers.length - 1;
+    values = layer.weights.map((row, unit) => {
+      let sum = layer.biases[unit];
+      for (let j = 0; j < row.length; j++) sum += row[j] * values[j];
+      return isLast ? sum : activate(sum, layer.activation);
+    });
+  });
+  return softmax(values);
+}
+
+export function modelProbabilities(model: GestureModel, features: number[]): number[] {
+  return model.type === 'knn' ? knnProbabilities(model, features) : mlpProbabilities(model, features);
+}
+
+// The model only sees the dominant hand, so two-handed signs still come from
+// the pair rules, as they do for the rule-based classifier
+export function createLearnedClassifier(
+  model: GestureModel,
+  rules: Pick<RuleSet, 'pairs'> = { pairs: PAIR_GESTURES },
+): GestureClassifier {
+  return {
+    id: model.type,
+    name: model.type === 'knn' ? 'Learned (k-NN)' : 'Learned (MLP)',
+    classify(hands, options = {}) {
+      const { dominantHand, ...rest } = options;
+      const valid = hands.filter((hand) => hand.landmarks?.length === 21);
+      if (valid.length >= 2) {
+        const pairResult = classifyPair(resolvePair(valid, dominantHand ?? 'Right'), rest, rules.pairs);
+        if (pairResult && !isUnknown(pairResult)) return pairResult;
+      }
+
+      const hand = dominantHandOf(hands, dominantHand);
+      if (!hand) return null;
+
+      const features = handFeatureVector(hand.landmarks, {
+        handedness: hand.handedness,
+        aspectRatio: options.aspectRatio,
+      });
+      const probabilities = modelProbabilities(model, features);
+      return rankCandidates(
+        model.labels.map((gesture, i) => ({ gesture, confidence: probabilities[i] })),
+        1,
+        options,
+      );
+    },
+  };
+}
+
+// ===== USER SAMPLES =====
+
+export interface SampleClassifierOptions {
+  k?: number;
+  // Max distance to the nearest sample that still counts as a match. Samples
+  // only cover the labels a user recorded, so anything further away is
+  // left to the other classifiers.
+  maxDistance?: number;
+}
+
+// k-NN over user-recorded samples that rejects hands unlike any of them
+export function createSampleClassifier(
+  samples: KnnSample[],
+  options: SampleClassifierOptions = {},
+): GestureClassifier {
+  const k = options.k ?? 5;
+  const maxDistance = options.maxDistance ?? 0.8;
+  const labels = [...new Set(samples.map((sample) => sample.label))];
+  const model: KnnModel = { format: GESTURE_MODEL_FORMAT, version: GESTURE_MODEL_VERSION, type: 'knn', labels, k, samples };
+
+  return {
+    id: 'samples',
+    name: 'Custom signs',
+    classify(hands, classifyOptions = {}) {
+      const hand = dominantHandOf(hands, classifyOptions.dominantHand);
+      if (!hand || samples.length === 0) return null;
+
+      const features = handFeatureVector(hand.landmarks, {
+        handedness: hand.handedness,
+        aspectRatio: classifyOptions.aspectRatio,
+      });
+      const nearest = Math.min(...samples.map((sample) => euclidean(features, sample.features)));
+      if (nearest > maxDistance) return null;
+
+      const probabilities = knnProbabilities(model, features);
+      const closeness = 1 - nearest / maxDistance / 2;
+      return rankCandidates(
+        labels.map((gesture, i) => ({ gesture, confidence: probabilities[i] * closeness })),
+        1,
+        classifyOptions,
+      );
+    },
+  };
+}
+
+// Run several classifiers and rank all of their candidates together
+export function combineClassifiers(classifiers: GestureClassifier[]): GestureClassifier {
+  return {
+    id: classifiers.map((classifier) => classifier.id).join('+'),
+    name: classifiers.map((classifier) => classifier.name).join(' + '),
+    classify(hands, options) {
+      const results = classifiers
+        .map((classifier) => classifier.classify(hands, options))
+        .filter((result): result is GestureResult => result !== null);
+      if (results.length === 0) return null;
+      const best = results.reduce((a, b) => (b.confidence > a.confidence ? b : a));
+      return rankCandidates(results.flatMap((result) => result.candidates), best.hands, options);
+    },
+  };
+}
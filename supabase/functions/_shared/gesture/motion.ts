@@ -0,0 +1,341 @@
+import { LANDMARK, type GestureCandidate, type GestureResult, type HandLandmarks } from './types.ts';
+import { resolveHandedness, type Handedness } from './handedness.ts';
+import { computeHandFeatures, type FeatureThresholds, type HandFeatures } from './features.ts';
+import { toImageSpace } from './normalize.ts';
+import type { HandInput } from './pairs.ts';
+import type { BodyLocation, BodyReference } from './body.ts';
+import { isUnknown, rankCandidates, type RankOptions } from './ranking.ts';
+import { distance } from './vector.ts';
+
+// Timestamped snapshot of every hand the tracker saw in one frame
+export interface TrajectoryFrame {
+  t: number;
+  hands: HandInput[];
+  // Face and body reference points, with holistic tracking
+  body?: BodyReference;
+}
+
+export type Point2D = [number, number];
+
+export interface MotionTemplate {
+  gesture: string;
+  confidence: number;
+  // Handshape the dominant hand holds while moving
+  handshape: (hand: HandFeatures) => boolean;
+  // Landmark whose path is traced
+  landmark: number;
+  // Reference path in the signer's view: +x towards the dominant side, +y down
+  path: Point2D[];
+  // Duration limits for the movement, in milliseconds; only the trailing
+  // maxDuration of the buffer is considered
+  minDuration: number;
+  maxDuration: number;
+  // Minimum travel of the traced landmark, in palm units
+  minExtent: number;
+  // Also accept the path mirrored left-right (e.g. a wave may start either way)
+  symmetric?: boolean;
+  // Where the movement starts relative to the body; only checked with
+  // holistic tracking
+  startLocation?: BodyLocation;
+}
+
+export interface MatchMotionOptions extends RankOptions {
+  dominantHand?: Handedness;
+  aspectRatio?: number;
+  // Personal handshape thresholds, e.g. from a calibrated hand profile
+  thresholds?: Partial<FeatureThresholds>;
+  // Max normalized DTW distance that still counts as a match
+  maxDistance?: number;
+}
+
+// How much history the rolling buffer keeps
+export const TRAJECTORY_WINDOW_MS = 2000;
+
+// Points each path is resampled to before comparison
+const RESAMPLE_POINTS = 24;
+
+// Append a frame and drop frames older than the window
+export function appendFrame(
+  frames: TrajectoryFrame[],
+  frame: TrajectoryFrame,
+  windowMs = TRAJECTORY_WINDOW_MS,
+): TrajectoryFrame[] {
+  const next = [...frames, frame];
+  const cutoff = frame.t - windowMs;
+  const firstKept = next.findIndex((f) => f.t >= cutoff);
+  return firstKept > 0 ? next.slice(firstKept) : next;
+}
+
+// ===== HANDSHAPES =====
+
+const only = (hand: HandFeatures, ...fingers: Array<keyof HandFeatures['fingers']>) =>
+  (['index', 'middle', 'ring', 'pinky'] as const).every(
+    (finger) => (hand.fingers[finger].state === 'extended') === fingers.includes(finger),
+  );
+
+const pinkyOnly = (hand: HandFeatures) => only(hand, 'pinky');
+const indexOnly = (hand: HandFeatures) => only(hand, 'index');
+const openHand = (hand: HandFeatures) => only(hand, 'index', 'middle', 'ring', 'pinky');
+const thumbsUp = (hand: HandFeatures) => only(hand) && hand.thumbOut;
+
+// ===== ASL MOTION SIGNS =====
+
+export const MOTION_GESTURES: MotionTemplate[] = [
+  // J - pinky draws a J: down, then hooks towards the body
+  {
+    gesture: 'J',
+    confidence: 0.85,
+    handshape: pinkyOnly,
+    landmark: LANDMARK.PINKY_TIP,
+    path: [[0, 0], [0, 0.5], [0, 1], [-0.2, 1.3], [-0.5, 1.4], [-0.8, 1.2]],
+    minDuration: 300,
+    maxDuration: 1800,
+    minExtent: 0.6,
+  },
+  // Z - index finger traces a Z in the air
+  {
+    gesture: 'Z',
+    confidence: 0.85,
+    handshape: indexOnly,
+    landmark: LANDMARK.INDEX_TIP,
+    path: [[0, 0], [0.5, 0], [1, 0], [0.5, 0.5], [0, 1], [0.5, 1], [1, 1]],
+    minDuration: 400,
+    maxDuration: 2000,
+    minExtent: 0.8,
+  },
+  // Hello - open hand waving side to side
+  {
+    gesture: 'Hello',
+    confidence: 0.85,
+    handshape: openHand,
+    landmark: LANDMARK.MIDDLE_TIP,
+    path: [[0, 0], [1, 0], [0, 0], [1, 0], [0, 0]],
+    minDuration: 400,
+    maxDuration: 2000,
+    minExtent: 0.6,
+    symmetric: true,
+  },
+  // 10 - thumbs-up shaken side to side
+  {
+    gesture: '10',
+    confidence: 0.82,
+    handshape: thumbsUp,
+    landmark: LANDMARK.THUMB_TIP,
+    path: [[0, 0], [1, 0], [0, 0], [1, 0]],
+    minDuration: 300,
+    maxDuration: 1500,
+    minExtent: 0.4,
+    symmetric: true,
+  },
+  // Thank You - flat hand moving forward and down from the chin
+  {
+    gesture: 'Thank You',
+    confidence: 0.80,
+    handshape: openHand,
+    landmark: LANDMARK.MIDDLE_TIP,
+    path: [[0, 0], [0.1, 0.4], [0.25, 0.8], [0.4, 1.1]],
+    minDuration: 300,
+    maxDuration: 1500,
+    minExtent: 0.8,
+    startLocation: 'chin',
+  },
+];
+
+// ===== PATH MATCHING =====
+
+const dist2 = (a: Point2D, b: Point2D) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+// Resample a path to evenly spaced points along its length, so pauses and
+// speed changes do not affect the shape
+export function resamplePath(path: Point2D[], count = RESAMPLE_POINTS): Point2D[] {
+  if (path.length < 2) return path;
+  const cumulative = [0];
+  for (let i = 1; i < path.length; i++) {
+    cumulative.push(cumulative[i - 1] + dist2(path[i - 1], path[i]));
+  }
+  const total = cumulative[cumulative.length - 1];
+  if (total === 0) return [path[0]];
+
+  const result: Point2D[] = [];
+  let segment = 1;
+  for (let i = 0; i < count; i++) {
+    const target = (total * i) / (count - 1);
+    while (segment < path.length - 1 && cumulative[segment] < target) segment++;
+    const span = cumulative[segment] - cumulative[segment - 1] || 1;
+    const ratio = (target - cumulative[segment - 1]) / span;
+    const [a, b] = [path[segment - 1], path[segment]];
+    result.push([a[0] + (b[0] - a[0]) * ratio, a[1] + (b[1] - a[1]) * ratio]);
+  }
+  return result;
+}
+
+// Move the path to start at the origin and scale its larger side to 1
+export function normalizePath(path: Point2D[]): Point2D[] {
+  if (path.length === 0) return path;
+  const [x0, y0] = path[0];
+  const xs = path.map(([x]) => x);
+  const ys = path.map(([, y]) => y);
+  const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) || 1;
+  return path.map(([x, y]) => [(x - x0) / size, (y - y0) / size]);
+}
+
+// Dynamic time warping distance, averaged over the warping path length
+export function dtwDistance(a: Point2D[], b: Point2D[]): number {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) return Infinity;
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(Infinity));
+  cost[0][0] = 0;
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      cost[i][j] = dist2(a[i - 1], b[j - 1]) + Math.min(cost[i - 1][j], cost[i][j - 1], cost[i - 1][j - 1]);
+    }
+  }
+  return cost[n][m] / (n + m);
+}
+
+// ===== TRAJECTORY MATCHING =====
+
+interface TrackedFrame {
+  t: number;
+  hand: HandFeatures;
+  image: HandLandmarks;
+  handedness: Handedness;
+}
+
+// Follow the dominant hand through the buffer
+function trackDominantHand(
+  frames: TrajectoryFrame[],
+  options: Pick<MatchMotionOptions, 'dominantHand' | 'aspectRatio' | 'thresholds'>,
+): TrackedFrame[] {
+  const tracked: TrackedFrame[] = [];
+  for (const frame of frames) {
+    const candidates = frame.hands.filter((hand) => hand.landmarks?.length === 21);
+    if (candidates.length === 0) continue;
+    const preferred = options.dominantHand ?? 'Right';
+    const chosen = candidates.find((hand) => hand.handedness === preferred) ?? candidates[0];
+    const handedness = candidates.length === 1
+      ? resolveHandedness(chosen.handedness, options.dominantHand)
+      : preferred;
+    tracked.push({
+      t: frame.t,
+      hand: computeHandFeatures(chosen.landmarks, {
+        handedness,
+        aspectRatio: options.aspectRatio,
+        thresholds: options.thresholds,
+        body: frame.body,
+      }),
+      image: toImageSpace(chosen.landmarks, options.aspectRatio),
+      handedness,
+    });
+  }
+  return tracked;
+}
+
+function matchTemplate(
+  tracked: TrackedFrame[],
+  template: MotionTemplate,
+  maxDistance: number,
+): GestureCandidate | null {
+  // The movement is the trailing run of frames holding the handshape,
+  // limited to the longest the sign may take
+  const end = tracked.length > 0 ? tracked[tracked.length - 1].t : 0;
+  let start = tracked.length;
+  while (
+    start > 0 &&
+    end - tracked[start - 1].t <= template.maxDuration &&
+    template.handshape(tracked[start - 1].hand)
+  ) start--;
+  const segment = tracked.slice(start);
+  if (segment.length < 4) return null;
+
+  const duration = segment[segment.length - 1].t - segment[0].t;
+  if (duration < template.minDuration) return null;
+
+  // The hand must pass the start location early in the movement
+  if (template.startLocation && segment[0].hand.bodyTracked) {
+    const opening = segment.slice(0, Math.max(1, Math.ceil(segment.length / 3)));
+    if (!opening.some((f) => f.hand.location === template.startLocation)) return null;
+  }
+
+  // Path in the signer's view: the camera frame is unmirrored, so the
+  // dominant side of a right hand is towards -x
+  const palmSize = segment.reduce(
+    (sum, f) => sum + distance(f.image[LANDMARK.WRIST], f.image[LANDMARK.MIDDLE_MCP]),
+    0,
+  ) / segment.length || 1;
+  const path: Point2D[] = segment.map((f) => {
+    const [x, y] = f.image[template.landmark];
+    return [(f.handedness === 'Right' ? -x : x) / palmSize, y / palmSize];
+  });
+
+  const xs = path.map(([x]) => x);
+  const ys = path.map(([, y]) => y);
+  const extent = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  if (extent < template.minExtent) return null;
+
+  const observed = normalizePath(resamplePath(path));
+  const reference = normalizePath(resamplePath(template.path));
+  let score = dtwDistance(observed, reference);
+  if (template.symmetric) {
+    const mirrored = reference.map(([x, y]): Point2D => [-x, y]);
+    score = Math.min(score, dtwDistance(observed, mirrored));
+  }
+  if (score > maxDistance) return null;
+
+  return {
+    gesture: template.gesture,
+    confidence: template.confidence * (1 - score / maxDistance / 2),
+  };
+}
+
+// Look for a movement-based sign at the end of the trajectory buffer. Null
+// when nothing matches confidently, so static classification can take over.
+export function matchMotion(
+  frames: TrajectoryFrame[],
+  options: MatchMotionOptions = {},
+  templates: MotionTemplate[] = MOTION_GESTURES,
+): GestureResult | null {
+  const tracked = trackDominantHand(frames, options);
+  const maxDistance = options.maxDistance ?? 0.25;
+
+  const matches: GestureCandidate[] = [];
+  for (const template of templates) {
+    const match = matchTemplate(tracked, template, maxDistance);
+    if (match) matches.push(match);
+  }
+  if (matches.length === 0) return null;
+  const result = rankCandidates(matches, 1, options);
+  return isUnknown(result) ? null : result;
+}
+
+// ===== REPEAT BOUNCE =====
+
+export interface BounceOptions {
+  dominantHand?: Handedness;
+  aspectRatio?: number;
+  // Only frames after this time are considered, e.g. since the last emitted sign
+  since?: number;
+  // Minimum sideways travel of the wrist, in palm units
+  minShift?: number;
+}
+
+export const BOUNCE_MIN_SHIFT = 0.35;
+
+// Whether the dominant hand slid sideways more than it rose or fell - the
+// small bounce that doubles a fingerspelled letter (the two Ls in HELLO)
+export function detectBounce(frames: TrajectoryFrame[], options: BounceOptions = {}): boolean {
+  const since = options.since ?? -Infinity;
+  const tracked = trackDominantHand(frames.filter((frame) => frame.t > since), options);
+  if (tracked.length < 3) return false;
+
+  const palmSize = tracked.reduce(
+    (sum, f) => sum + distance(f.image[LANDMARK.WRIST], f.image[LANDMARK.MIDDLE_MCP]),
+    0,
+  ) / tracked.length || 1;
+  const xs = tracked.map((f) => f.image[LANDMARK.WRIST][0] / palmSize);
+  const ys = tracked.map((f) => f.image[LANDMARK.WRIST][1] / palmSize);
+  const shift = Math.max(...xs) - Math.min(...xs);
+  const rise = Math.max(...ys) - Math.min(...ys);
+  return shift >= (options.minShift ?? BOUNCE_MIN_SHIFT) && rise < shift;
+}
@@ -0,0 +1,41 @@
+import { LANDMARK, type HandLandmarks } from './types.ts';
+import { mirrorHand, type Handedness } from './handedness.ts';
+import { cross, dot, length, normalize, scale, sub } from './vector.ts';
+
+export interface NormalizeOptions {
+  // Which hand the landmarks belong to; left hands are mirrored onto the right
+  handedness?: Handedness;
+  // Frame width / height. MediaPipe normalizes x and y by different sizes.
+  aspectRatio?: number;
+}
+
+// Rescale raw MediaPipe landmarks so x, y and z share one unit (frame height)
+export function toImageSpace(landmarks: HandLandmarks, aspectRatio = 1): HandLandmarks {
+  return landmarks.map(([x, y, z = 0]) => [x * aspectRatio, y, z * aspectRatio]);
+}
+
+// Translate, scale and rotate a hand into a canonical palm frame:
+//   origin  - the wrist
+//   unit    - palm size (wrist to middle finger knuckle)
+//   +y      - from the wrist towards the middle finger knuckle
+//   +x      - across the knuckles, from the pinky towards the index finger
+//   +z      - out of the palm
+// The result no longer depends on where the hand is, how large it appears or
+// how it is tilted, so thresholds can be expressed in palm units.
+export function normalizeHand(landmarks: HandLandmarks, options: NormalizeOptions = {}): HandLandmarks {
+  const hand = options.handedness === 'Left' ? mirrorHand(landmarks) : landmarks;
+  const points = toImageSpace(hand, options.aspectRatio);
+
+  const wrist = points[LANDMARK.WRIST];
+  const translated = points.map((p) => sub(p, wrist));
+
+  const palmSize = length(translated[LANDMARK.MIDDLE_MCP]) || 1;
+  const scaled = translated.map((p) => scale(p, 1 / palmSize));
+
+  const up = normalize(scaled[LANDMARK.MIDDLE_MCP]);
+  const knuckles = sub(scaled[LANDMARK.INDEX_MCP], scaled[LANDMARK.PINKY_MCP]);
+  const across = normalize(sub(knuckles, scale(up, dot(knuckles, up))));
+  const out = cross(across, up);
+
+  return scaled.map((p) => [dot(p, across), dot(p, up), dot(p, out)]);
+}
@@ -0,0 +1,63 @@
+import type { MotionTemplate } from './motion.ts';
+import type { RuleSet } from './pairs.ts';
+
+// Everything needed to recognize one sign language
+export interface SignLanguagePack extends RuleSet {
+  // Short id, e.g. 'asl'
+  id: string;
+  name: string;
+  // Abbreviation shown in compact UI, e.g. 'ASL'
+  shortName: string;
+  motions: MotionTemplate[];
+  // Display glosses for gestures whose gloss is not just the upper-cased name
+  glosses: Record<string, string>;
+  // Handshapes read as a number in number mode, e.g. O as 0
+  numbers: Record<string, string>;
+  // Letters the pack fingerspells; words needing any other letter are never
+  // suggested
+  alphabet: string[];
+  // Trained model for the learned classifier, relative to the app root;
+  // without one, the learned classifier needs a model file the user loads
+  modelUrl?: string;
+}
+
+export const LATIN_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+// Gloss shown for a recognized gesture, e.g. 'Thank You' -> 'THANK-YOU'
+export function glossFor(pack: SignLanguagePack, gesture: string): string {
+  return pack.glosses[gesture] ?? gesture.toUpperCase().replace(/\s+/g, '-');
+}
+
+// Digits a gesture stands for in number mode, or null if it is not a number
+export function numberFor(pack: SignLanguagePack, gesture: string): string | null {
+  if (/^\d+$/.test(gesture)) return gesture;
+  return pack.numbers[gesture] ?? null;
+}
+
+// Whether every letter of a spelling can be fingerspelled in the pack
+export function canSpell(pack: SignLanguagePack, spelling: string): boolean {
+  return [...spelling].every((letter) => pack.alphabet.includes(letter));
+}
+
+export interface PackVocabulary {
+  handshapes: string[];
+  moving: string[];
+  twoHanded: string[];
+  // Latin letters the pack cannot fingerspell yet
+  missingLetters: string[];
+}
+
+// Gestures a pack can produce, grouped by how they are signed
+export function packVocabulary(pack: SignLanguagePack): PackVocabulary {
+  const unique = (gestures: string[]) => [...new Set(gestures)];
+  const handshapes = unique(pack.definitions.map((definition) => definition.gesture));
+  const moving = unique(pack.motions.map((template) => template.gesture));
+  const twoHanded = unique(pack.pairs.map((rule) => rule.gesture));
+  const recognized = new Set([...handshapes, ...moving, ...twoHanded]);
+  return {
+    handshapes,
+    moving,
+    twoHanded,
+    missingLetters: LATIN_ALPHABET.filter((letter) => !pack.alphabet.includes(letter) || !recognized.has(letter)),
+  };
+}
@@ -0,0 +1,17 @@
+import { GESTURE_DEFINITIONS } from '../definitions.ts';
+import { MOTION_GESTURES } from '../motion.ts';
+import { PAIR_GESTURES } from '../pairs.ts';
+import { LATIN_ALPHABET, type SignLanguagePack } from '../pack.ts';
+
+// American Sign Language: the alphabet, numbers 0-10 and common signs
+export const ASL_PACK: SignLanguagePack = {
+  id: 'asl',
+  name: 'American Sign Language',
+  shortName: 'ASL',
+  definitions: GESTURE_DEFINITIONS,
+  pairs: PAIR_GESTURES,
+  motions: MOTION_GESTURES,
+  glosses: { 'I Love You': 'ILY' },
+  numbers: { O: '0', V: '2', Hello: '5', W: '6', F: '9' },
+  alphabet: LATIN_ALPHABET,
+};
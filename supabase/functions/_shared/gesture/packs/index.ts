@@ -0,0 +1,14 @@
+import type { SignLanguagePack } from '../pack.ts';
+import { ASL_PACK } from './asl.ts';
+import { ISL_PACK } from './isl.ts';
+
+// Packs that ship with the app. Register new sign languages here.
+export const SIGN_LANGUAGE_PACKS: SignLanguagePack[] = [ASL_PACK, ISL_PACK];
+
+export const DEFAULT_SIGN_LANGUAGE = ASL_PACK.id;
+
+export function getSignLanguagePack(id: string | undefined): SignLanguagePack {
+  return SIGN_LANGUAGE_PACKS.find((pack) => pack.id === id) ?? ASL_PACK;
+}
+
+export { ASL_PACK, ISL_PACK };
@@ -0,0 +1,120 @@
+import { LANDMARK } from '../types.ts';
+import type { HandFeatures } from '../features.ts';
+import { FOLDED, GESTURE_DEFINITIONS, type GestureDefinition } from '../definitions.ts';
+import { MOTION_GESTURES } from '../motion.ts';
+import { flatHand, pointingHand, type PairAnchor, type PairGestureRule } from '../pairs.ts';
+import type { SignLanguagePack } from '../pack.ts';
+
+// Handshapes ISL shares with ASL, renamed where the meaning differs
+const fromAsl = (gesture: string, as = gesture): GestureDefinition => {
+  const definition = GESTURE_DEFINITIONS.find((d) => d.gesture === gesture);
+  if (!definition) throw new Error(`No ASL definition for ${gesture}`);
+  return { ...definition, gesture: as };
+};
+
+// ===== ONE-HANDED SIGNS =====
+
+const ISL_DEFINITIONS: GestureDefinition[] = [
+  // Letters signed with one hand
+  fromAsl('C'),
+  fromAsl('L'),
+  fromAsl('V'),
+
+  // Numerals
+  fromAsl('1'),
+  fromAsl('2'),
+  {
+    gesture: '3', confidence: 0.80,
+    description: 'Index, middle and ring fingers up',
+    fingers: { index: 'extended', middle: 'extended', ring: 'extended', pinky: FOLDED },
+  },
+  fromAsl('4'),
+  fromAsl('Hello', '5'),
+
+  // Common words
+  fromAsl('Yes', 'Good'),
+  fromAsl('I', 'Bad'),
+];
+
+// ===== TWO-HANDED SIGNS =====
+
+const extended = (hand: HandFeatures, finger: keyof HandFeatures['fingers']) =>
+  hand.fingers[finger].state === 'extended';
+
+const twoFingers = (hand: HandFeatures) =>
+  extended(hand, 'index') && extended(hand, 'middle') && !extended(hand, 'ring') && !extended(hand, 'pinky');
+
+const threeFingers = (hand: HandFeatures) =>
+  extended(hand, 'index') && extended(hand, 'middle') && extended(hand, 'ring') && !extended(hand, 'pinky');
+
+const dom = (landmark: number): PairAnchor => ({ hand: 'dominant', landmark });
+const non = (landmark: number): PairAnchor => ({ hand: 'nonDominant', landmark });
+
+// Vowels - dominant index touches one fingertip of the open non-dominant hand
+const vowel = (gesture: string, fingertip: number): PairGestureRule => ({
+  gesture,
+  confidence: 0.82,
+  dominant: pointingHand,
+  nonDominant: flatHand,
+  constraints: [{ type: 'near', a: dom(LANDMARK.INDEX_TIP), b: non(fingertip), max: 0.35 }],
+});
+
+const ISL_PAIRS: PairGestureRule[] = [
+  vowel('A', LANDMARK.THUMB_TIP),
+  vowel('E', LANDMARK.INDEX_TIP),
+  vowel('I', LANDMARK.MIDDLE_TIP),
+  vowel('O', LANDMARK.RING_TIP),
+  vowel('U', LANDMARK.PINKY_TIP),
+  // M - three fingers laid on the non-dominant palm
+  {
+    gesture: 'M',
+    confidence: 0.78,
+    dominant: threeFingers,
+    nonDominant: flatHand,
+    constraints: [{ type: 'near', a: dom(LANDMARK.MIDDLE_TIP), b: non(LANDMARK.MIDDLE_MCP), max: 0.8 }],
+  },
+  // N - two fingers laid on the non-dominant palm
+  {
+    gesture: 'N',
+    confidence: 0.78,
+    dominant: twoFingers,
+    nonDominant: flatHand,
+    constraints: [{ type: 'near', a: dom(LANDMARK.MIDDLE_TIP), b: non(LANDMARK.MIDDLE_MCP), max: 0.8 }],
+  },
+  // X - index fingers crossed
+  {
+    gesture: 'X',
+    confidence: 0.78,
+    dominant: pointingHand,
+    nonDominant: pointingHand,
+    constraints: [{ type: 'near', a: dom(LANDMARK.INDEX_PIP), b: non(LANDMARK.INDEX_PIP), max: 0.5 }],
+  },
+  // Namaste - flat palms pressed together
+  {
+    gesture: 'Namaste',
+    confidence: 0.85,
+    dominant: flatHand,
+    nonDominant: flatHand,
+    constraints: [
+      { type: 'near', a: dom(LANDMARK.MIDDLE_TIP), b: non(LANDMARK.MIDDLE_TIP), max: 0.5 },
+      { type: 'near', a: dom(LANDMARK.WRIST), b: non(LANDMARK.WRIST), max: 1.0 },
+    ],
+  },
+];
+
+// Indian Sign Language: the letters that can be told apart from hand
+// landmarks alone, numerals 1-5 and common words
+export const ISL_PACK: SignLanguagePack = {
+  id: 'isl',
+  name: 'Indian Sign Language',
+  shortName: 'ISL',
+  definitions: ISL_DEFINITIONS,
+  pairs: ISL_PAIRS,
+  motions: MOTION_GESTURES.filter((template) => ['Hello', 'Thank You'].includes(template.gesture)),
+  glosses: {},
+  // V comes before 2 in priority and is the same handshape
+  numbers: { V: '2' },
+  // Most of the two-handed ISL alphabet is not recognized yet, so only these
+  // letters are offered; the UI lists the gap
+  alphabet: ['A', 'C', 'E', 'I', 'L', 'M', 'N', 'O', 'U', 'V', 'X'],
+};
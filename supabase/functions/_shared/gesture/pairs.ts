@@ -0,0 +1,272 @@
+import { LANDMARK, type GestureCandidate, type GestureResult, type HandLandmarks } from './types.ts';
+import { resolveHandedness, type Handedness } from './handedness.ts';
+import { computeHandFeatures, type HandFeatures } from './features.ts';
+import { toImageSpace } from './normalize.ts';
+import { classifyGesture, type ClassifyOptions } from './classifier.ts';
+import { GESTURE_DEFINITIONS, type GestureDefinition } from './definitions.ts';
+import { calibrateRuleMatches, isUnknown, rankCandidates } from './ranking.ts';
+import { distance } from './vector.ts';
+
+// One tracked hand as reported by the hand tracker
+export interface HandInput {
+  landmarks: HandLandmarks;
+  handedness?: Handedness;
+}
+
+export type PairRole = 'dominant' | 'nonDominant';
+
+export interface PairAnchor {
+  hand: PairRole;
+  landmark: number;
+}
+
+// Relative-position constraints between the two hands. Distances are in
+// palm units (the mean palm size of both hands), positions are image-space.
+export type PairConstraint =
+  | { type: 'near'; a: PairAnchor; b: PairAnchor; max: number }
+  | { type: 'apart'; a: PairAnchor; b: PairAnchor; min: number }
+  | { type: 'above'; a: PairAnchor; b: PairAnchor }
+  | { type: 'level'; a: PairAnchor; b: PairAnchor; tolerance: number };
+
+export interface PairGestureRule {
+  gesture: string;
+  confidence: number;
+  dominant: (hand: HandFeatures) => boolean;
+  nonDominant: (hand: HandFeatures) => boolean;
+  constraints: PairConstraint[];
+}
+
+export interface ClassifyHandsOptions extends Omit<ClassifyOptions, 'handedness'> {
+  // The signer's dominant hand; when unset, detection decides and a pair
+  // of hands is read as right-dominant
+  dominantHand?: Handedness;
+}
+
+// Static rules one classifier run works from
+export interface RuleSet {
+  definitions: GestureDefinition[];
+  pairs: PairGestureRule[];
+}
+
+// ===== HANDSHAPES =====
+
+const extended = (hand: HandFeatures, finger: keyof HandFeatures['fingers']) =>
+  hand.fingers[finger].state === 'extended';
+
+export const flatHand = (hand: HandFeatures) =>
+  extended(hand, 'index') && extended(hand, 'middle') && extended(hand, 'ring') && extended(hand, 'pinky');
+
+export const closedHand = (hand: HandFeatures) =>
+  !extended(hand, 'index') && !extended(hand, 'middle') && !extended(hand, 'ring') && !extended(hand, 'pinky');
+
+export const pointingHand = (hand: HandFeatures) =>
+  extended(hand, 'index') && !extended(hand, 'middle') && !extended(hand, 'ring') && !extended(hand, 'pinky');
+
+const hookedHand = (hand: HandFeatures) =>
+  hand.fingers.index.state === 'hooked' && !extended(hand, 'middle') && !extended(hand, 'ring') && !extended(hand, 'pinky');
+
+const yHand = (hand: HandFeatures) =>
+  hand.thumbOut && !extended(hand, 'index') && !extended(hand, 'middle') && !extended(hand, 'ring') && extended(hand, 'pinky');
+
+// All fingertips gathered onto the thumb
+const flatOHand = (hand: HandFeatures) => {
+  const thumbTip = hand.points[LANDMARK.THUMB_TIP];
+  const { touch } = hand.thresholds;
+  return !flatHand(hand) &&
+    distance(thumbTip, hand.points[LANDMARK.INDEX_TIP]) < touch &&
+    distance(thumbTip, hand.points[LANDMARK.MIDDLE_TIP]) < touch;
+};
+
+const dom = (landmark: number): PairAnchor => ({ hand: 'dominant', landmark });
+const non = (landmark: number): PairAnchor => ({ hand: 'nonDominant', landmark });
+
+// ===== ASL TWO-HANDED SIGNS =====
+
+export const PAIR_GESTURES: PairGestureRule[] = [
+  // More - both flat-O hands with fingertips tapping together
+  {
+    gesture: 'More',
+    confidence: 0.82,
+    dominant: flatOHand,
+    nonDominant: flatOHand,
+    constraints: [{ type: 'near', a: dom(LANDMARK.INDEX_TIP), b: non(LANDMARK.INDEX_TIP), max: 0.6 }],
+  },
+  // Friend - index fingers hooked together
+  {
+    gesture: 'Friend',
+    confidence: 0.80,
+    dominant: hookedHand,
+    nonDominant: hookedHand,
+    constraints: [{ type: 'near', a: dom(LANDMARK.INDEX_TIP), b: non(LANDMARK.INDEX_TIP), max: 0.5 }],
+  },
+  // Same - index fingers side by side at the same height
+  {
+    gesture: 'Same',
+    confidence: 0.80,
+    dominant: pointingHand,
+    nonDominant: pointingHand,
+    constraints: [
+      { type: 'near', a: dom(LANDMARK.INDEX_TIP), b: non(LANDMARK.INDEX_TIP), max: 0.6 },
+      { type: 'level', a: dom(LANDMARK.INDEX_TIP), b: non(LANDMARK.INDEX_TIP), tolerance: 0.3 },
+    ],
+  },
+  // Help - closed dominant hand resting on the flat non-dominant palm
+  {
+    gesture: 'Help',
+    confidence: 0.80,
+    dominant: closedHand,
+    nonDominant: flatHand,
+    constraints: [
+      { type: 'near', a: dom(LANDMARK.WRIST), b: non(LANDMARK.MIDDLE_MCP), max: 1.2 },
+      { type: 'above', a: dom(LANDMARK.WRIST), b: non(LANDMARK.WRIST) },
+    ],
+  },
+  // Stop - edge of the flat dominant hand chopping onto the flat palm
+  {
+    gesture: 'Stop',
+    confidence: 0.78,
+    dominant: flatHand,
+    nonDominant: flatHand,
+    constraints: [
+      { type: 'near', a: dom(LANDMARK.PINKY_MCP), b: non(LANDMARK.MIDDLE_MCP), max: 0.8 },
+      { type: 'above', a: dom(LANDMARK.MIDDLE_TIP), b: non(LANDMARK.MIDDLE_MCP) },
+    ],
+  },
+  // Book - two flat hands side by side, pinky edges together
+  {
+    gesture: 'Book',
+    confidence: 0.78,
+    dominant: flatHand,
+    nonDominant: flatHand,
+    constraints: [
+      { type: 'near', a: dom(LANDMARK.PINKY_MCP), b: non(LANDMARK.PINKY_MCP), max: 0.7 },
+      { type: 'level', a: dom(LANDMARK.WRIST), b: non(LANDMARK.WRIST), tolerance: 0.4 },
+    ],
+  },
+  // Play - both Y hands held apart
+  {
+    gesture: 'Play',
+    confidence: 0.80,
+    dominant: yHand,
+    nonDominant: yHand,
+    constraints: [{ type: 'apart', a: dom(LANDMARK.WRIST), b: non(LANDMARK.WRIST), min: 1.5 }],
+  },
+];
+
+const ASL_RULES: RuleSet = { definitions: GESTURE_DEFINITIONS, pairs: PAIR_GESTURES };
+
+// ===== PAIR MATCHING =====
+
+export interface HandPair {
+  dominant: HandInput & { handedness: Handedness };
+  nonDominant: HandInput & { handedness: Handedness };
+}
+
+// Decide which of two hands is dominant. Falls back to image position when
+// the tracker labels both hands the same: in an unmirrored camera frame the
+// signer's right hand appears on the left.
+export function resolvePair(hands: HandInput[], dominantHand: Handedness): HandPair {
+  const [first, second] = hands;
+  let right: HandInput;
+  let left: HandInput;
+  if (first.handedness && second.handedness && first.handedness !== second.handedness) {
+    [right, left] = first.handedness === 'Right' ? [first, second] : [second, first];
+  } else {
+    [right, left] = first.landmarks[LANDMARK.WRIST][0] <= second.landmarks[LANDMARK.WRIST][0]
+      ? [first, second]
+      : [second, first];
+  }
+  const rightHand = { ...right, handedness: 'Right' as const };
+  const leftHand = { ...left, handedness: 'Left' as const };
+  return dominantHand === 'Right'
+    ? { dominant: rightHand, nonDominant: leftHand }
+    : { dominant: leftHand, nonDominant: rightHand };
+}
+
+const meetsConstraint = (
+  constraint: PairConstraint,
+  points: Record<PairRole, HandLandmarks>,
+  palmSize: number,
+): boolean => {
+  const a = points[constraint.a.hand][constraint.a.landmark];
+  const b = points[constraint.b.hand][constraint.b.landmark];
+  switch (constraint.type) {
+    case 'near':
+      return distance(a, b) / palmSize <= constraint.max;
+    case 'apart':
+      return distance(a, b) / palmSize >= constraint.min;
+    case 'above':
+      return a[1] < b[1];
+    case 'level':
+      return Math.abs(a[1] - b[1]) / palmSize <= constraint.tolerance;
+  }
+};
+
+// Two-handed signs only; null when no pair rule matches
+export function classifyPair(
+  pair: HandPair,
+  options: Omit<ClassifyOptions, 'handedness'> = {},
+  rules: PairGestureRule[] = PAIR_GESTURES,
+): GestureResult | null {
+  const dominant = computeHandFeatures(pair.dominant.landmarks, { ...options, handedness: pair.dominant.handedness });
+  const nonDominant = computeHandFeatures(pair.nonDominant.landmarks, { ...options, handedness: pair.nonDominant.handedness });
+
+  // Hand z is relative to each hand's own wrist, so compare hands in 2D only
+  const flatten = (landmarks: HandLandmarks) =>
+    toImageSpace(landmarks, options.aspectRatio).map(([x, y]) => [x, y, 0]);
+  const points: Record<PairRole, HandLandmarks> = {
+    dominant: flatten(pair.dominant.landmarks),
+    nonDominant: flatten(pair.nonDominant.landmarks),
+  };
+  const palmSize = (
+    distance(points.dominant[LANDMARK.WRIST], points.dominant[LANDMARK.MIDDLE_MCP]) +
+    distance(points.nonDominant[LANDMARK.WRIST], points.nonDominant[LANDMARK.MIDDLE_MCP])
+  ) / 2 || 1;
+
+  const matches: GestureCandidate[] = [];
+  for (const rule of rules) {
+    if (!rule.dominant(dominant) || !rule.nonDominant(nonDominant)) continue;
+    if (!rule.constraints.every((c) => meetsConstraint(c, points, palmSize))) continue;
+    matches.push({ gesture: rule.gesture, confidence: rule.confidence });
+  }
+  return matches.length > 0 ? rankCandidates(calibrateRuleMatches(matches), 2, options) : null;
+}
+
+// The hand that carries one-handed signs, with its handedness resolved
+export function dominantHandOf(
+  hands: HandInput[],
+  dominantHand?: Handedness,
+): (HandInput & { handedness: Handedness }) | null {
+  const valid = hands.filter((hand) => hand.landmarks?.length === 21);
+  if (valid.length === 0) return null;
+  if (valid.length === 1) {
+    return { ...valid[0], handedness: resolveHandedness(valid[0].handedness, dominantHand) };
+  }
+  return resolvePair(valid, dominantHand ?? 'Right').dominant;
+}
+
+// Classify everything the tracker sees: a two-handed sign when both hands
+// match one, otherwise the dominant hand on its own
+export function classifyHands(
+  hands: HandInput[],
+  options: ClassifyHandsOptions = {},
+  rules: RuleSet = ASL_RULES,
+): GestureResult | null {
+  const { dominantHand, ...rest } = options;
+  const valid = hands.filter((hand) => hand.landmarks?.length === 21);
+  if (valid.length === 0) return null;
+
+  if (valid.length === 1) {
+    const [hand] = valid;
+    return classifyGesture(
+      hand.landmarks,
+      { ...rest, handedness: resolveHandedness(hand.handedness, dominantHand) },
+      rules.definitions,
+    );
+  }
+
+  const pair = resolvePair(valid, dominantHand ?? 'Right');
+  const pairResult = classifyPair(pair, rest, rules.pairs);
+  if (pairResult && !isUnknown(pairResult)) return pairResult;
+  return classifyGesture(pair.dominant.landmarks, { ...rest, handedness: pair.dominant.handedness }, rules.definitions);
+}
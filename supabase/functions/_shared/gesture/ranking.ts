@@ -0,0 +1,70 @@
+import {
+  GESTURE_CONTRACT_VERSION,
+  UNKNOWN_GESTURE,
+  type GestureCandidate,
+  type GestureResult,
+} from './types.ts';
+
+export interface RankOptions {
+  // Frames whose best candidate scores below this are reported as unknown
+  rejectionThreshold?: number;
+}
+
+export const DEFAULT_REJECTION_THRESHOLD = 0.4;
+
+// How many candidates a result carries
+const MAX_CANDIDATES = 5;
+
+// Each later rule match is discounted by this factor. Rule confidences lie
+// in 0.75-0.88, so the first match in priority order always ranks first.
+const PRIORITY_DECAY = 0.85;
+
+// Softmax temperature for spreading probability over matching rules
+const TEMPERATURE = 0.1;
+
+// Turn the rules that matched a frame, in priority order, into calibrated
+// candidates. A single match keeps its rule confidence; when several rules
+// match, each is scaled by its softmax share so ambiguous frames score lower.
+export function calibrateRuleMatches(matches: GestureCandidate[]): GestureCandidate[] {
+  const scored = matches.map((match, i) => ({
+    gesture: match.gesture,
+    confidence: match.confidence * PRIORITY_DECAY ** i,
+  }));
+  if (scored.length === 0) return scored;
+  const max = Math.max(...scored.map((c) => c.confidence));
+  const weights = scored.map((c) => Math.exp((c.confidence - max) / TEMPERATURE));
+  const total = weights.reduce((a, b) => a + b, 0);
+  return scored.map((c, i) => ({ gesture: c.gesture, confidence: matches[i].confidence * (weights[i] / total) }));
+}
+
+// Build a result from candidates: merged by gesture, ranked best first, with
+// the margin to the runner-up and rejection of low-confidence frames
+export function rankCandidates(
+  candidates: GestureCandidate[],
+  hands: 1 | 2,
+  options: RankOptions = {},
+): GestureResult {
+  const best = new Map<string, number>();
+  for (const { gesture, confidence } of candidates) {
+    if (gesture === UNKNOWN_GESTURE) continue;
+    best.set(gesture, Math.max(confidence, best.get(gesture) ?? 0));
+  }
+  const ranked = [...best]
+    .map(([gesture, confidence]) => ({ gesture, confidence }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES);
+
+  const top = ranked[0]?.confidence ?? 0;
+  const threshold = options.rejectionThreshold ?? DEFAULT_REJECTION_THRESHOLD;
+  return {
+    version: GESTURE_CONTRACT_VERSION,
+    gesture: ranked.length > 0 && top >= threshold ? ranked[0].gesture : UNKNOWN_GESTURE,
+    confidence: top,
+    hands,
+    candidates: ranked,
+    margin: top - (ranked[1]?.confidence ?? 0),
+  };
+}
+
+export const isUnknown = (result: GestureResult | null) =>
+  !result || result.gesture === UNKNOWN_GESTURE;
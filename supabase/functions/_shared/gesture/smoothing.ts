@@ -0,0 +1,76 @@
+import type { HandInput } from './pairs.ts';
+
+// One Euro filter (Casiez et al., 2012): a low-pass filter whose cutoff rises
+// with speed, so a still hand stops jittering while a moving one doesn't lag.
+export interface OneEuroParams {
+  // Cutoff frequency at rest, in Hz; lower smooths more
+  minCutoff: number;
+  // How much the cutoff rises with speed (per normalized image unit per second);
+  // higher lags less during fast movement
+  beta: number;
+  // Cutoff for the speed estimate itself, in Hz
+  derivativeCutoff?: number;
+}
+
+export const DEFAULT_SMOOTHING: OneEuroParams = {
+  minCutoff: 1,
+  beta: 10,
+  derivativeCutoff: 1,
+};
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+interface FilterState {
+  t: number;
+  value: number;
+  derivative: number;
+}
+
+// Filter one value; `t` is in milliseconds
+function filterValue(state: FilterState | undefined, value: number, t: number, params: OneEuroParams): FilterState {
+  if (!state) return { t, value, derivative: 0 };
+  const dt = (t - state.t) / 1000;
+  if (dt <= 0) return state;
+
+  const rawDerivative = (value - state.value) / dt;
+  const a = smoothingFactor(params.derivativeCutoff ?? 1, dt);
+  const derivative = state.derivative + a * (rawDerivative - state.derivative);
+  const cutoff = params.minCutoff + params.beta * Math.abs(derivative);
+  return { t, value: state.value + smoothingFactor(cutoff, dt) * (value - state.value), derivative };
+}
+
+export interface LandmarkSmoother {
+  // Smoothed copies of the hands; a hand that disappears starts fresh when it returns
+  smooth(hands: HandInput[], t: number, params?: OneEuroParams): HandInput[];
+  reset(): void;
+}
+
+// A One Euro filter on every coordinate of every landmark, tracked per hand
+export function createLandmarkSmoother(): LandmarkSmoother {
+  // Filter state by hand, then by landmark and axis
+  let filters = new Map<string, FilterState[][]>();
+
+  return {
+    smooth(hands, t, params = DEFAULT_SMOOTHING) {
+      const next = new Map<string, FilterState[][]>();
+      const smoothed = hands.map((hand, i) => {
+        // Handedness is the only identity a hand keeps between frames
+        const key = hand.handedness ?? `#${i}`;
+        const previous = filters.get(key);
+        const states = hand.landmarks.map((point, j) =>
+          point.map((value, axis) => filterValue(previous?.[j]?.[axis], value, t, params)),
+        );
+        next.set(key, states);
+        return { ...hand, landmarks: states.map((point) => point.map((state) => state.value)) };
+      });
+      filters = next;
+      return smoothed;
+    },
+    reset() {
+      filters = new Map();
+    },
+  };
+}
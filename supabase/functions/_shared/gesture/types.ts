@@ -0,0 +1,59 @@
+// Shared gesture classifier contract.
+// This module is framework-free so it can be imported by both the Vite app
+// (via the "@shared" alias) and the Deno edge functions (via relative path).
+
+// Bump whenever the shape or meaning of a classification result changes.
+export const GESTURE_CONTRACT_VERSION = 3;
+
+// A single landmark as [x, y, z] in MediaPipe's normalized image coordinates
+export type Landmark = number[];
+
+// The 21 landmarks of one hand, indexed as in MediaPipe Hands
+export type HandLandmarks = Landmark[];
+
+// Reported when a hand is visible but no candidate is confident enough
+export const UNKNOWN_GESTURE = 'unknown';
+
+export interface GestureCandidate {
+  gesture: string;
+  confidence: number;
+}
+
+export interface GestureResult {
+  version: typeof GESTURE_CONTRACT_VERSION;
+  // Best candidate, or UNKNOWN_GESTURE when it falls below the rejection threshold
+  gesture: string;
+  // Confidence of the best candidate, even when it was rejected
+  confidence: number;
+  // Whether the gesture was recognized from one hand or from a pair of hands
+  hands: 1 | 2;
+  // Ranked alternatives, best first
+  candidates: GestureCandidate[];
+  // Confidence gap between the best and second-best candidates
+  margin: number;
+}
+
+// MediaPipe Hands landmark indices
+export const LANDMARK = {
+  WRIST: 0,
+  THUMB_CMC: 1,
+  THUMB_MCP: 2,
+  THUMB_IP: 3,
+  THUMB_TIP: 4,
+  INDEX_MCP: 5,
+  INDEX_PIP: 6,
+  INDEX_DIP: 7,
+  INDEX_TIP: 8,
+  MIDDLE_MCP: 9,
+  MIDDLE_PIP: 10,
+  MIDDLE_DIP: 11,
+  MIDDLE_TIP: 12,
+  RING_MCP: 13,
+  RING_PIP: 14,
+  RING_DIP: 15,
+  RING_TIP: 16,
+  PINKY_MCP: 17,
+  PINKY_PIP: 18,
+  PINKY_DIP: 19,
+  PINKY_TIP: 20,
+} as const;
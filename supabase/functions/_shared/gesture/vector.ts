@@ -0,0 +1,32 @@
+import type { Landmark } from './types.ts';
+
+// Minimal 3D vector helpers for landmark math
+
+export const sub = (a: Landmark, b: Landmark): Landmark => [a[0] - b[0], a[1] - b[1], (a[2] ?? 0) - (b[2] ?? 0)];
+
+export const dot = (a: Landmark, b: Landmark): number => a[0] * b[0] + a[1] * b[1] + (a[2] ?? 0) * (b[2] ?? 0);
+
+export const cross = (a: Landmark, b: Landmark): Landmark => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+export const scale = (a: Landmark, s: number): Landmark => [a[0] * s, a[1] * s, (a[2] ?? 0) * s];
+
+export const length = (a: Landmark): number => Math.sqrt(dot(a, a));
+
+export const distance = (a: Landmark, b: Landmark): number => length(sub(a, b));
+
+export const normalize = (a: Landmark): Landmark => {
+  const len = length(a);
+  return len > 0 ? scale(a, 1 / len) : [0, 0, 0];
+};
+
+// Angle between two vectors in degrees (0 = same direction)
+export const angleBetween = (a: Landmark, b: Landmark): number => {
+  const denom = length(a) * length(b);
+  if (denom === 0) return 0;
+  const cos = Math.min(1, Math.max(-1, dot(a, b) / denom));
+  return (Math.acos(cos) * 180) / Math.PI;
+};
@@ -1,123 +1,30 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  classifyHands,
+  GESTURE_CONTRACT_VERSION,
+  getSignLanguagePack,
+  isUnknown,
+  UNKNOWN_GESTURE,
+  type BodyReference,
+  type HandInput,
+} from "../_shared/gesture/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Sign language gesture mappings based on hand landmarks
-// This is a simplified classifier - can be replaced with a real ML model
-const GESTURE_MAPPINGS: Record<string, string> = {
-  // Letters (simplified patterns)
-  'thumb_up': 'A',
-  'fist': 'S',
-  'index_point': 'D',
-  'peace': 'V',
-  'open_palm': 'B',
-  'pinch': 'O',
-  'rock': 'I',
-  'call': 'Y',
-  'thumb_pinky': 'Y',
-  // Common words
-  'wave': 'Hello',
-  'nod_hand': 'Yes',
-  'shake_hand': 'No',
-  'heart': 'Thank You',
-  'point_self': 'I',
-  'point_you': 'You',
-  // Numbers
-  'one_finger': '1',
-  'two_fingers': '2',
-  'three_fingers': '3',
-  'four_fingers': '4',
-  'five_fingers': '5',
-};
-
-// Simplified gesture detection based on landmark positions
-function classifyGesture(landmarks: number[][]): { gesture: string; confidence: number } {
-  if (!landmarks || landmarks.length < 21) {
-    return { gesture: 'unknown', confidence: 0 };
+// The caller sent something other than hands of 21 numeric points
+const invalidLandmarks = () => new Response(
+  JSON.stringify({ 
+    error: 'Invalid landmarks data',
+    detected: false 
+  }),
+  {
+    status: 400,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
   }
-
-  // Calculate finger states (extended or folded)
-  const thumbTip = landmarks[4];
-  const indexTip = landmarks[8];
-  const middleTip = landmarks[12];
-  const ringTip = landmarks[16];
-  const pinkyTip = landmarks[20];
-  
-  const wrist = landmarks[0];
-  const indexMcp = landmarks[5];
-  const middleMcp = landmarks[9];
-  const ringMcp = landmarks[13];
-  const pinkyMcp = landmarks[17];
-
-  // Check if fingers are extended (tip is higher than MCP joint)
-  const indexExtended = indexTip[1] < indexMcp[1];
-  const middleExtended = middleTip[1] < middleMcp[1];
-  const ringExtended = ringTip[1] < ringMcp[1];
-  const pinkyExtended = pinkyTip[1] < pinkyMcp[1];
-  const thumbExtended = thumbTip[0] < landmarks[3][0]; // For right hand
-
-  const extendedCount = [indexExtended, middleExtended, ringExtended, pinkyExtended].filter(Boolean).length;
-
-  // Detect gestures based on finger positions
-  let gesture = 'unknown';
-  let confidence = 0.5;
-
-  // Five fingers - Open palm (Hello/B)
-  if (extendedCount === 4 && thumbExtended) {
-    gesture = 'Hello';
-    confidence = 0.85;
-  }
-  // Fist - all fingers closed
-  else if (extendedCount === 0 && !thumbExtended) {
-    gesture = 'S';
-    confidence = 0.8;
-  }
-  // Peace sign - index and middle extended
-  else if (indexExtended && middleExtended && !ringExtended && !pinkyExtended) {
-    gesture = 'V';
-    confidence = 0.85;
-  }
-  // Index point - only index extended
-  else if (indexExtended && !middleExtended && !ringExtended && !pinkyExtended) {
-    gesture = 'D';
-    confidence = 0.75;
-  }
-  // Thumb up
-  else if (thumbExtended && extendedCount === 0) {
-    gesture = 'Yes';
-    confidence = 0.8;
-  }
-  // Rock sign - index and pinky extended
-  else if (indexExtended && !middleExtended && !ringExtended && pinkyExtended) {
-    gesture = 'I Love You';
-    confidence = 0.85;
-  }
-  // Three fingers
-  else if (indexExtended && middleExtended && ringExtended && !pinkyExtended) {
-    gesture = 'W';
-    confidence = 0.75;
-  }
-  // Four fingers
-  else if (indexExtended && middleExtended && ringExtended && pinkyExtended && !thumbExtended) {
-    gesture = '4';
-    confidence = 0.8;
-  }
-  // One finger (index)
-  else if (indexExtended && !middleExtended && !ringExtended && !pinkyExtended && !thumbExtended) {
-    gesture = '1';
-    confidence = 0.8;
-  }
-  // Two fingers
-  else if (indexExtended && middleExtended && !ringExtended && !pinkyExtended && !thumbExtended) {
-    gesture = '2';
-    confidence = 0.8;
-  }
-
-  return { gesture, confidence };
-}
+);
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -126,35 +33,66 @@ serve(async (req) => {
   }
 
   try {
-    const { landmarks, timestamp } = await req.json();
-    
-    console.log('Received landmarks for detection:', landmarks?.length || 0, 'points');
+    const payload = await req.json();
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return invalidLandmarks();
+    }
+    const {
+      landmarks, handedness, hands, body, dominantHand, aspectRatio, rejectionThreshold, signLanguage, timestamp,
+    } = payload;
+
+    const isHand = (value: unknown): value is 'Left' | 'Right' => value === 'Left' || value === 'Right';
+    const isPoint = (value: unknown): value is number[] =>
+      Array.isArray(value) && value.length >= 2 && value.every((n) => typeof n === 'number');
+    const isLandmarks = (value: unknown): value is number[][] =>
+      Array.isArray(value) && value.length === 21 && value.every(isPoint);
 
-    if (!landmarks || !Array.isArray(landmarks)) {
-      return new Response(
-        JSON.stringify({ 
-          error: 'Invalid landmarks data',
-          detected: false 
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    // Optional face and chest reference points from holistic tracking
+    const bodyReference: BodyReference | undefined = body && typeof body === 'object'
+      ? {
+          forehead: isPoint(body.forehead) ? body.forehead : undefined,
+          chin: isPoint(body.chin) ? body.chin : undefined,
+          chest: isPoint(body.chest) ? body.chest : undefined,
         }
-      );
+      : undefined;
+
+    // Accept either a list of hands or a single hand's landmarks
+    const handInputs: HandInput[] = Array.isArray(hands)
+      ? hands.map((hand) => ({ landmarks: hand?.landmarks, handedness: isHand(hand?.handedness) ? hand.handedness : undefined }))
+      : landmarks !== undefined
+        ? [{ landmarks, handedness: isHand(handedness) ? handedness : undefined }]
+        : [];
+
+    console.log('Received landmarks for detection:', handInputs.length, 'hands');
+
+    // Every hand must be 21 numeric points; anything else is the caller's error
+    if (handInputs.length === 0 || !handInputs.every((hand) => isLandmarks(hand.landmarks))) {
+      return invalidLandmarks();
     }
 
-    // Classify the gesture
-    const result = classifyGesture(landmarks);
+    // Classify the gesture with the same rules the browser uses
+    const pack = getSignLanguagePack(typeof signLanguage === 'string' ? signLanguage : undefined);
+    const result = classifyHands(handInputs, {
+      dominantHand: isHand(dominantHand) ? dominantHand : undefined,
+      aspectRatio: typeof aspectRatio === 'number' && aspectRatio > 0 ? aspectRatio : undefined,
+      rejectionThreshold: typeof rejectionThreshold === 'number' ? rejectionThreshold : undefined,
+      body: bodyReference,
+    }, pack);
 
-    console.log('Detected gesture:', result.gesture, 'with confidence:', result.confidence);
+    console.log('Detected gesture:', result?.gesture ?? UNKNOWN_GESTURE, 'with confidence:', result?.confidence ?? 0);
 
     return new Response(
       JSON.stringify({
-        detected: result.gesture !== 'unknown',
-        gesture: result.gesture,
-        confidence: result.confidence,
+        version: GESTURE_CONTRACT_VERSION,
+        sign_language: pack.id,
+        detected: !isUnknown(result),
+        gesture: result?.gesture ?? UNKNOWN_GESTURE,
+        confidence: result?.confidence ?? 0,
+        candidates: result?.candidates ?? [],
+        margin: result?.margin ?? 0,
         timestamp: timestamp || new Date().toISOString(),
-        landmarks_received: landmarks.length
+        hands: result?.hands ?? 0,
+        hands_received: handInputs.length
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,136 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { glossesToSentence } from './rules.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+
+const languageNames: Record<string, string> = {
+  'en': 'English',
+  'ta': 'Tamil',
+  'hi': 'Hindi'
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { glosses, targetLanguage = 'en' } = await req.json();
+
+    console.log('Gloss-to-sentence request:', { glosses, targetLanguage });
+
+    if (!Array.isArray(glosses) || glosses.some((gloss) => typeof gloss !== 'string')) {
+      return new Response(
+        JSON.stringify({
+          error: 'glosses must be an array of strings'
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const fallbackSentence = glossesToSentence(glosses, targetLanguage);
+
+    // Nothing for the model to smooth
+    if (glosses.length <= 1 || !LOVABLE_API_KEY) {
+      if (!LOVABLE_API_KEY) {
+        console.error('LOVABLE_API_KEY is not configured');
+      }
+      return new Response(
+        JSON.stringify({
+          glosses,
+          sentence: fallbackSentence,
+          targetLanguage,
+          fallback: true
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const targetLangName = languageNames[targetLanguage] || targetLanguage;
+
+    // Call Lovable AI to turn the glosses into a sentence
+    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        messages: [
+          {
+            role: 'system',
+            content: `You convert sign language glosses into natural written ${targetLangName}. The user sends the glosses in the order they were signed, one per line. Sign languages drop articles, auxiliaries and tense markers, so add them where needed, but do not add meaning that is not in the glosses. Words in capital letters were fingerspelled and are usually names. Only respond with the sentence, nothing else.`
+          },
+          {
+            role: 'user',
+            content: glosses.join('\n')
+          }
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('AI gateway error:', response.status, errorText);
+
+      // Handle rate limiting
+      if (response.status === 429) {
+        return new Response(
+          JSON.stringify({
+            error: 'Rate limit exceeded. Please try again later.',
+            glosses,
+            sentence: fallbackSentence,
+            targetLanguage,
+            fallback: true
+          }),
+          {
+            status: 429,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      throw new Error(`AI gateway error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const sentence = data.choices?.[0]?.message?.content?.trim() || fallbackSentence;
+
+    console.log('Gloss-to-sentence result:', sentence);
+
+    return new Response(
+      JSON.stringify({
+        glosses,
+        sentence,
+        targetLanguage,
+        fallback: false
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in gloss-to-sentence function:', error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,75 @@
+// Deterministic gloss-to-sentence conversion, used when the AI gateway is
+// not configured. It only fixes what can be done without grammar: joins
+// fingerspelled letters, translates known signs and punctuates.
+
+const PHRASES: Record<string, Record<string, string>> = {
+  'Hello': { en: 'hello', ta: 'வணக்கம்', hi: 'नमस्ते' },
+  'Namaste': { en: 'namaste', ta: 'வணக்கம்', hi: 'नमस्ते' },
+  'Yes': { en: 'yes', ta: 'ஆம்', hi: 'हाँ' },
+  'No': { en: 'no', ta: 'இல்லை', hi: 'नहीं' },
+  'Thank You': { en: 'thank you', ta: 'நன்றி', hi: 'धन्यवाद' },
+  'I Love You': { en: 'I love you', ta: 'நான் உன்னை காதலிக்கிறேன்', hi: 'मैं तुमसे प्यार करता हूँ' },
+  'I': { en: 'I', ta: 'நான்', hi: 'मैं' },
+  'You': { en: 'you', ta: 'நீ', hi: 'तुम' },
+  'Good': { en: 'good', ta: 'நல்லது', hi: 'अच्छा' },
+  'Bad': { en: 'bad', ta: 'மோசம்', hi: 'बुरा' },
+};
+
+// Signs that stand as a sentence of their own
+const INTERJECTIONS = new Set(['Hello', 'Namaste', 'Yes', 'No', 'Thank You']);
+
+const SENTENCE_END: Record<string, string> = { hi: '।' };
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const isSingleLetter = (gloss: string) => /^[A-Z]$/.test(gloss);
+
+// Letters signed one by one without fingerspelling mode form one word
+function joinLetters(glosses: string[]): string[] {
+  const joined: string[] = [];
+  let run: string[] = [];
+  const flush = () => {
+    // A lone letter stays as it is, e.g. the pronoun I
+    if (run.length > 0) joined.push(run.join(''));
+    run = [];
+  };
+  for (const gloss of glosses) {
+    if (isSingleLetter(gloss)) {
+      run.push(gloss);
+    } else {
+      flush();
+      joined.push(gloss);
+    }
+  }
+  flush();
+  return joined;
+}
+
+function renderGloss(gloss: string, language: string): string {
+  const phrase = PHRASES[gloss]?.[language];
+  if (phrase) return phrase;
+  // Other glosses are English words, or spelled words which are usually
+  // names; only English can take them as they are
+  if (language !== 'en') return gloss;
+  return /^[A-Z]{2,}$/.test(gloss) ? capitalize(gloss.toLowerCase()) : gloss.toLowerCase();
+}
+
+export function glossesToSentence(glosses: string[], language: string): string {
+  const clauses: string[][] = [];
+  let clause: string[] = [];
+  for (const gloss of joinLetters(glosses.map((g) => g.trim()).filter(Boolean))) {
+    if (INTERJECTIONS.has(gloss)) {
+      if (clause.length > 0) clauses.push(clause);
+      clauses.push([gloss]);
+      clause = [];
+    } else {
+      clause.push(gloss);
+    }
+  }
+  if (clause.length > 0) clauses.push(clause);
+
+  const end = SENTENCE_END[language] ?? '.';
+  return clauses
+    .map((words) => capitalize(words.map((gloss) => renderGloss(gloss, language)).join(' ')) + end)
+    .join(' ');
+}